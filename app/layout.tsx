@@ -11,6 +11,7 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // French until the page applies the language chosen in its settings
   return (
     <html lang="fr">
       <body>{children}</body>
@@ -1,79 +1,86 @@
 'use client';
 
-import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useState, useCallback, useEffect, useLayoutEffect, useMemo, useReducer, useRef } from 'react';
+import {
+  applyAction, canMergeTrumps, CLASSIC, cloneState, countAllPlaced, dealGame, findAutoMove,
+  findSequenceForFoundation, findVariant, finishingMoves, hintMoves, parseGameActions, parseGameState, parseRecord,
+  parseSeed, positionKey, positionOutlook, randomSeed, replayRecord, safeFoundationMove, seqStart,
+} from '@/lib/engine';
+import type {
+  Card, Difficulty, GameAction, GameState, Move, MoveSource, Outlook, SolveResult, Suit, Variant,
+} from '@/lib/engine';
+import type { SolveRequest, SolveResponse } from '@/lib/solver.worker';
+import type { DealRequest, DealResponse } from '@/lib/deal.worker';
+import { readStored, removeStored, writeStored } from '@/lib/storage';
+import { emptyStats, loadStats, recordResult, removeStats, saveStats } from '@/lib/stats';
+import type { GameResult, PlayerStats } from '@/lib/stats';
+import { computeScore, formatDuration } from '@/lib/score';
+import { defaultSettings, legacyPlayerName, loadSettings, removeSettings, saveSettings } from '@/lib/settings';
+import type { Settings } from '@/lib/settings';
+import {
+  activeProfile, DEFAULT_PLAYER_NAME, defaultProfiles, loadProfiles, MAX_PLAYER_NAME, profileKey,
+  profileName, saveProfiles, withNewProfile,
+} from '@/lib/profiles';
+import type { Profile, Profiles } from '@/lib/profiles';
+import { defaultSoundSettings, loadSoundSettings, playSound, saveSoundSettings } from '@/lib/sound';
+import type { SoundName, SoundSettings } from '@/lib/sound';
+import { themeVariables } from '@/lib/themes';
+import { cardAt, cardPlaces, cardTrips, samePlaces } from '@/lib/travel';
+import type { Place } from '@/lib/travel';
+import { dailySeed, dayKey, hasPlayed, loadDailyResults, recentDays, recordDailyResult, saveDailyResults } from '@/lib/daily';
+import type { DailyResult } from '@/lib/daily';
+import type { ScoreBreakdown } from '@/lib/score';
+import { CHEATS, findCheat } from '@/lib/cheats';
+import { cardName, columnLabel, describeAction, foundationLabel } from '@/lib/describe';
+import { MESSAGES, MessagesContext, useMessages } from '@/lib/i18n';
+import type { Messages } from '@/lib/i18n';
+import type { Cheat } from '@/lib/cheats';
+import StatsPanel from '@/components/StatsPanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import ReplayBar from '@/components/ReplayBar';
+import DailyPanel from '@/components/DailyPanel';
+import SettingsPanel from '@/components/SettingsPanel';
+import ProfilesPanel from '@/components/ProfilesPanel';
+import CardArt, { hasArt } from '@/components/CardArt';
+import type { DailyStatus } from '@/components/DailyPanel';
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
 // ═══════════════════════════════════════════════════════════════════
 
-type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
-
-interface Card {
-  id: string;
-  kind: 'suit' | 'trump' | 'excuse';
-  suit?: Suit;
-  value: number;
-  faceUp: boolean;
-}
-
-type SelectedSource =
-  | { from: 'col'; index: number; cardIndex: number }
-  | { from: 'excuse' }
-  | { from: 'fdn'; index: number };
+type SelectedSource = MoveSource;
 
+// `auto` marks a card sent home by the automatic collection. `rejected` is
+// a placement the rules refused, for the sound it makes.
 type LastMove =
   | { type: 'col'; index: number }
-  | { type: 'fdn'; index: number }
+  | { type: 'fdn'; index: number; auto?: boolean }
   | { type: 'distribute' }
-  | { type: 'excuse' };
+  | { type: 'excuse' }
+  | { type: 'rejected' };
+
+// A Facile or Difficile deal to look for, under the given rules
+interface DealSearch {
+  difficulty: Difficulty;
+  variant: Variant;
+}
 
 // ═══════════════════════════════════════════════════════════════════
 // Constants
 // ═══════════════════════════════════════════════════════════════════
 
-const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 const SUIT_SYM: Record<Suit, string> = {
   hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠',
 };
-const COL_SIZES = [1, 2, 3, 4, 5, 6, 5, 4, 3, 2, 1];
-const VAL_DISPLAY: Record<number, string> = {
-  1: 'A', 11: 'V', 12: 'C', 13: 'D', 14: 'R',
-};
-
-// ═══════════════════════════════════════════════════════════════════
-// Deck & shuffle
-// ═══════════════════════════════════════════════════════════════════
-
-function createDeck(): Card[] {
-  const cards: Card[] = [];
-  for (const suit of SUITS)
-    for (let v = 1; v <= 14; v++)
-      cards.push({ id: `${suit[0]}${v}`, kind: 'suit', suit, value: v, faceUp: false });
-  for (let v = 1; v <= 21; v++)
-    cards.push({ id: `t${v}`, kind: 'trump', value: v, faceUp: false });
-  cards.push({ id: 'ex', kind: 'excuse', value: 0, faceUp: false });
-  return cards;
-}
-
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
 
 // ═══════════════════════════════════════════════════════════════════
 // Display helpers
 // ═══════════════════════════════════════════════════════════════════
 
-const isRed = (c: Card) => c.suit === 'hearts' || c.suit === 'diamonds';
-
-const displayVal = (c: Card): string => {
+const displayVal = (c: Card, t: Messages): string => {
   if (c.kind === 'excuse') return '?';
   if (c.kind === 'trump') return String(c.value);
-  return VAL_DISPLAY[c.value] ?? String(c.value);
+  return t.ranks[c.value] ?? String(c.value);
 };
 
 const suitSym = (c: Card): string => {
@@ -82,344 +89,560 @@ const suitSym = (c: Card): string => {
   return SUIT_SYM[c.suit!];
 };
 
+// The colours come from the theme's CSS variables (see lib/themes.ts).
 const textColor = (c: Card): string => {
-  if (c.kind === 'excuse') return '#fbbf24';
-  if (c.kind === 'trump') return '#fcd34d';
-  return isRed(c) ? '#dc2626' : '#1e293b';
+  if (c.kind === 'excuse') return 'var(--excuse-ink)';
+  if (c.kind === 'trump') return 'var(--trump-ink)';
+  return `rgb(var(--ink-${c.suit}))`;
 };
 
 const cardBg = (c: Card, selected: boolean): string => {
-  if (selected) {
-    if (c.kind === 'trump') return '#334155';
-    if (c.kind === 'excuse') return '#292524';
-    return '#fefce8';
-  }
-  if (c.kind === 'trump') return '#1e293b';
-  if (c.kind === 'excuse') return '#1c1917';
-  return isRed(c) ? '#ffffff' : '#f8fafc';
+  if (c.kind === 'suit') return selected ? 'var(--suit-face-selected)' : 'var(--suit-face)';
+  return `var(--${c.kind}-face${selected ? '-selected' : ''})`;
 };
 
 const cardBorderColor = (c: Card, selected: boolean): string => {
   if (selected) return '#f59e0b';
-  if (c.kind === 'trump') return '#475569';
-  if (c.kind === 'excuse') return '#78716c';
-  return isRed(c) ? '#fecaca' : '#cbd5e1';
+  if (c.kind === 'suit') return `var(--edge-${c.suit})`;
+  return `var(--${c.kind}-edge)`;
 };
 
-// Does the column contain a face-up King (value 14)?
-function hasVisibleKing(col: Card[]): boolean {
-  return col.some(c => c.faceUp && c.kind === 'suit' && c.value === 14);
-}
-
 // ═══════════════════════════════════════════════════════════════════
 // Game state
 // ═══════════════════════════════════════════════════════════════════
 
+// The cheats themselves are described in lib/cheats.ts. A cheat in use goes
+// through its activation animation, then waits for its target if it has one,
+// then takes effect: a reveal until its time is up, or steps until the player
+// stops or runs out of them.
+type CheatRun =
+  | { id: string; phase: 'animation' }
+  | { id: string; phase: 'target' }
+  | { id: string; phase: 'reveal'; cardIds: string[]; ms: number }
+  | { id: string; phase: 'steps'; actions: GameAction[] };
+
+// uses counts the times each cheat was used this game, by id.
 interface CheatState {
-  peekUsed: boolean;
-  slowDistUsed: boolean;
-  activeCheat: 'peek' | 'slowDist' | null;
-  slowDistMode: boolean;
-  slowDistEligible: number[];
-  peekColIndex: number | null;
-  peekUntil: number | null;
+  uses: Record<string, number>;
+  run: CheatRun | null;
+}
+
+// The engine's GameState plus what only the UI cares about: the current
+// selection, the last move (for animations), every action played since the
+// deal, the cheats, the hints asked, the undos made, the time spent playing
+// (tab hidden excluded) and, for a daily challenge attempt, its day and player.
+interface DailyAttempt {
+  day: string;
+  player: string;
 }
 
-interface GameState {
-  columns: Card[][];
-  foundations: Card[][];
-  excuseSlot: Card | null;
-  stock: Card[];
+interface PlayState extends GameState {
   selected: SelectedSource | null;
-  gameOver: boolean;
-  moves: number;
   lastMove: LastMove | null;
-  trumpsMerged: boolean;
+  log: GameAction[];
   cheat: CheatState;
+  hintsUsed: number;
+  undosUsed: number;
+  elapsedMs: number;
+  daily: DailyAttempt | null;
 }
 
-function newGameState(): GameState {
-  const deck = shuffle(createDeck());
-  const columns: Card[][] = [];
-  let idx = 0;
-  for (const size of COL_SIZES) {
-    const col = deck.slice(idx, idx + size).map((c, i, a) => ({
-      ...c,
-      faceUp: i === a.length - 1,
-    }));
-    columns.push(col);
-    idx += size;
-  }
+function newGameState(seed: number, variant: Variant = CLASSIC, daily: DailyAttempt | null = null): PlayState {
   return {
-    columns,
-    foundations: [[], [], [], [], [], []],
-    excuseSlot: null,
-    stock: deck.slice(idx),
+    ...dealGame(seed, variant),
+    daily,
     selected: null,
-    gameOver: false,
-    moves: 0,
     lastMove: null,
-    trumpsMerged: false,
-    cheat: {
-      peekUsed: false,
-      slowDistUsed: false,
-      activeCheat: null,
-      slowDistMode: false,
-      slowDistEligible: [],
-      peekColIndex: null,
-      peekUntil: null,
-    },
+    log: [],
+    hintsUsed: 0,
+    undosUsed: 0,
+    elapsedMs: 0,
+    cheat: { uses: {}, run: null },
+  };
+}
+
+function usedCheats(gs: PlayState): string[] {
+  return CHEATS.filter(c => (gs.cheat.uses[c.id] ?? 0) > 0).map(c => c.id);
+}
+
+function cheatUsable(gs: PlayState, cheat: Cheat): boolean {
+  return (gs.cheat.uses[cheat.id] ?? 0) < cheat.limit && cheat.available(gs);
+}
+
+function cloneCheatState(cheat: CheatState): CheatState {
+  return { uses: { ...cheat.uses }, run: cheat.run && { ...cheat.run } };
+}
+
+// What a cheat does from `gs`, once its target (if any) is known.
+function cheatEffectRun(cheat: Cheat, gs: GameState, target: number | null): CheatRun | null {
+  const effect = cheat.effect(gs, target);
+  if (effect.kind === 'reveal') return { id: cheat.id, phase: 'reveal', cardIds: effect.cardIds, ms: effect.ms };
+  return effect.actions.length > 0 ? { id: cheat.id, phase: 'steps', actions: effect.actions } : null;
+}
+
+function gameResult(gs: PlayState): GameResult {
+  return {
+    won: gs.gameOver, moves: gs.moves, placed: countAllPlaced(gs), cheats: usedCheats(gs), variant: gs.variant.id,
   };
 }
 
+function dailyResult(gs: PlayState, profileId: string): DailyResult | null {
+  if (!gs.daily) return null;
+  const { won, moves, placed, cheats } = gameResult(gs);
+  return { ...gs.daily, profileId, won, moves, placed, cheats, elapsedMs: gs.elapsedMs };
+}
+
+function scoreOf(gs: PlayState): ScoreBreakdown {
+  return computeScore({
+    state: gs,
+    elapsedMs: gs.elapsedMs,
+    cheatsUsed: usedCheats(gs).length,
+    undosUsed: gs.undosUsed,
+    hintsUsed: gs.hintsUsed,
+  });
+}
+
 // ═══════════════════════════════════════════════════════════════════
-// Placement rules
+// State helpers
 // ═══════════════════════════════════════════════════════════════════
 
-function canPlaceOnColumn(card: Card, col: Card[]): boolean {
-  if (card.kind === 'excuse') return col.length > 0;
-  if (col.length === 0) return card.kind === 'suit' && card.value === 14;
-  // Find the real (non-excuse) card at the top and count how many excuses sit above it
-  let gap = 0;
-  let realIdx = col.length - 1;
-  while (realIdx >= 0 && col[realIdx].kind === 'excuse') { gap++; realIdx--; }
-  if (realIdx < 0) return true; // column is all excuses — accept anything
-  const real = col[realIdx];
-  const expectedValue = real.value - (gap + 1);
-  if (card.kind === 'trump') {
-    return real.kind === 'trump' && card.value === expectedValue;
-  }
-  if (real.kind === 'suit') {
-    const colorOk = (gap + 1) % 2 === 1 ? isRed(card) !== isRed(real) : isRed(card) === isRed(real);
-    return card.kind === 'suit' && card.value === expectedValue && colorOk;
-  }
-  return false;
+function cloneGs(gs: PlayState): PlayState {
+  return {
+    ...cloneState(gs),
+    cheat: cloneCheatState(gs.cheat),
+  };
 }
 
-function canPlaceOnFoundation(card: Card, fi: number, allFdns: Card[][], merged: boolean): boolean {
-  const fdn = allFdns[fi];
-  if (fi < 4) {
-    if (card.kind !== 'suit' || card.suit !== SUITS[fi]) return false;
-    return fdn.length === 0 ? card.value === 1 : card.value === fdn[fdn.length - 1].value + 1;
-  }
-  if (fi === 4) {
-    if (card.kind !== 'trump') return false;
-    if (merged) return false;
-    if (fdn.length === 0) return card.value === 1;
-    return card.value === fdn[fdn.length - 1].value + 1;
-  }
-  if (fi === 5) {
-    if (card.kind !== 'trump') return false;
-    if (merged) return false;
-    if (fdn.length === 0) return card.value === 21;
-    return card.value === fdn[fdn.length - 1].value - 1;
-  }
-  return false;
+function selectSource(gs: PlayState, selected: SelectedSource | null): PlayState {
+  return { ...gs, selected, lastMove: null };
 }
 
-function findFoundation(card: Card, fdns: Card[][], merged: boolean): number {
-  for (let i = 0; i < 6; i++)
-    if (canPlaceOnFoundation(card, i, fdns, merged)) return i;
-  return -1;
+// Drops the selection after a placement the engine refused.
+function rejectMove(gs: PlayState): PlayState {
+  return { ...gs, selected: null, lastMove: { type: 'rejected' } };
 }
 
-// Given a column and a foundation index, find how many cards from the bottom
-// of the column's movable sequence can be placed consecutively on the foundation.
-// Returns the cards to move (in order), or empty array if none can be placed.
-function findSequenceForFoundation(
-  col: Card[], fi: number, fdns: Card[][], merged: boolean
-): Card[] {
-  if (col.length === 0) return [];
-  const ss = seqStart(col);
-  const seq = col.slice(ss); // the movable sequence
-
-  // For suit foundations (0-3): only the bottom card (top of column) can go,
-  // because suit foundations build A->K and sequences are descending.
-  // Only a single card at the bottom matches.
-  if (fi < 4) {
-    const bottom = seq[seq.length - 1];
-    if (bottom && canPlaceOnFoundation(bottom, fi, fdns, merged)) return [bottom];
-    return [];
-  }
-
-  // For trump foundations (4-5): find the longest suffix of the sequence
-  // that can be placed on the foundation in order (bottom card first).
-  // The sequence in the column is descending (e.g. 10,9,8,7 with possible excuses).
-  // Foundation 4 (ascending) needs consecutive ascending values.
-  // Foundation 5 (descending) needs consecutive descending values.
-  if (merged) return [];
-  const fdn = fdns[fi];
-
-  // Collect actual trump cards from the sequence (skip excuses, they stay in column)
-  // We need to find cards from bottom of sequence going up that form a consecutive run
-  // matching the foundation's next expected values.
-  const trumpsFromBottom: { card: Card; colIndex: number }[] = [];
-  for (let i = seq.length - 1; i >= 0; i--) {
-    const card = seq[i];
-    if (card.kind === 'excuse') continue; // skip excuses
-    if (card.kind !== 'trump') break; // non-trump breaks
-    trumpsFromBottom.push({ card, colIndex: ss + i });
+function lastMoveFor(move: GameAction): LastMove {
+  switch (move.type) {
+    case 'toColumn': return { type: 'col', index: move.to };
+    case 'toFoundation': return { type: 'fdn', index: move.to };
+    case 'storeExcuse': return { type: 'excuse' };
+    case 'mergeTrumps': return { type: 'fdn', index: 4 };
+    case 'distribute': return { type: 'distribute' };
+    case 'dealCard': return { type: 'col', index: move.to };
   }
+}
 
-  if (trumpsFromBottom.length === 0) return [];
+// Play a move through the engine, clearing the selection and recording it in
+// the log and for the board animations. Returns null if the engine rejects it.
+function playMove(gs: PlayState, move: GameAction): PlayState | null {
+  const result = applyAction(gs, move);
+  if (!result.ok) return null;
+  return { ...result.state, selected: null, lastMove: lastMoveFor(move), log: [...gs.log, move] };
+}
 
-  // Check how many of these consecutive trumps can go on the foundation
-  const result: Card[] = [];
-  // Simulate placing cards one by one
-  let nextExpected: number;
-  if (fi === 4) {
-    nextExpected = fdn.length === 0 ? 1 : fdn[fdn.length - 1].value + 1;
-  } else {
-    nextExpected = fdn.length === 0 ? 21 : fdn[fdn.length - 1].value - 1;
-  }
+// The automatic collection's next move, played and marked as automatic.
+function collectSafeCard(gs: PlayState): PlayState | null {
+  const move = safeFoundationMove(gs);
+  const next = move && playMove(gs, move);
+  return next && move ? { ...next, lastMove: { type: 'fdn', index: move.to, auto: true } } : null;
+}
 
-  for (const { card } of trumpsFromBottom) {
-    if (card.value === nextExpected) {
-      result.push(card);
-      nextExpected = fi === 4 ? nextExpected + 1 : nextExpected - 1;
-    } else {
-      break;
+// The sound for going from `prev` to `next` in the same game, if any.
+function soundFor(prev: PlayState, next: PlayState): SoundName | null {
+  if (next.gameOver && !prev.gameOver) return 'fanfare';
+  if (next.undosUsed > prev.undosUsed) return 'drop';
+  if (next.log.length > prev.log.length) {
+    switch (next.log[next.log.length - 1].type) {
+      case 'toColumn': case 'storeExcuse': case 'dealCard': return 'drop';
+      case 'toFoundation': return 'foundation';
+      case 'distribute': return 'shuffle';
+      case 'mergeTrumps': return 'merge';
     }
   }
-
-  return result;
+  if (next.cheat.run?.phase === 'animation' && prev.cheat.run?.phase !== 'animation') return 'cheat';
+  if (next.lastMove?.type === 'rejected' && next.lastMove !== prev.lastMove) return 'illegal';
+  if (next.selected && next.selected !== prev.selected) return 'pickup';
+  return null;
 }
 
-function canMergeTrumps(gs: GameState): boolean {
-  if (gs.trumpsMerged) return false;
-  const asc = gs.foundations[4];
-  const desc = gs.foundations[5];
-  if (asc.length === 0 || desc.length === 0) return false;
-  return asc[asc.length - 1].value + 1 === desc[desc.length - 1].value;
+function cardTopCss(col: Card[], idx: number): string {
+  const fdi = col.findIndex(c => c.faceUp);
+  const fd = fdi < 0 ? col.length : fdi;
+  return `calc(${Math.min(idx, fd)} * var(--peek-down) + ${Math.max(0, idx - fd)} * var(--peek-up))`;
 }
 
-function countAllPlaced(gs: GameState): number {
-  return gs.foundations.reduce((s, f) => s + f.length, 0)
-    + (gs.excuseSlot !== null ? 1 : 0);
+function colHeight(col: Card[]): string {
+  if (col.length === 0) return 'var(--card-h)';
+  const fdi = col.findIndex(c => c.faceUp);
+  const fd = fdi < 0 ? col.length : fdi;
+  const fu = Math.max(0, col.length - fd - 1);
+  return `calc(${fd} * var(--peek-down) + ${fu} * var(--peek-up) + var(--card-h))`;
 }
 
-function isWin(gs: GameState): boolean {
-  const suitsDone = gs.foundations[0].length === 14 && gs.foundations[1].length === 14
-    && gs.foundations[2].length === 14 && gs.foundations[3].length === 14;
-  const trumpsDone = gs.foundations[4].length + gs.foundations[5].length === 21;
-  const excuseDone = gs.excuseSlot !== null;
-  return suitsDone && trumpsDone && excuseDone;
+// Cards and piles to light up for a hinted move. Piles use the same names as
+// the board's drop targets ('col-3', 'fdn-4', 'excuse') plus 'stock'.
+interface HintMarks {
+  cards: Set<string>;
+  piles: Set<string>;
 }
 
-// Find the start index of the movable sequence at the bottom of a column.
-// A sequence is a contiguous run of face-up cards where each card could be
-// legally placed on the one below it (alternating color for suits, consecutive
-// for trumps). The excuse acts as a transparent joker — it takes the place of
-// whatever card is logically expected and the sequence continues through it.
-function seqStart(col: Card[]): number {
-  if (col.length === 0) return 0;
-  let i = col.length - 1;
-  while (i > 0) {
-    const cur = col[i];
-    const prev = col[i - 1];
-    if (!cur.faceUp || !prev.faceUp) break;
-
-    // If prev is excuse, find the real card above it to check continuity
-    if (prev.kind === 'excuse') {
-      // Find the next real (non-excuse) card above
-      let k = i - 2;
-      while (k >= 0 && col[k].kind === 'excuse' && col[k].faceUp) k--;
-      if (k < 0 || !col[k].faceUp) { i--; continue; } // only excuses above, keep going
-      const real = col[k];
-      // cur must be a valid continuation of real, accounting for the gap
-      const gap = i - k; // number of positions between real and cur
-      if (cur.kind === 'trump' && real.kind === 'trump') {
-        if (cur.value !== real.value - gap) break;
-      } else if (cur.kind === 'suit' && real.kind === 'suit') {
-        if (cur.value !== real.value - gap) break;
-        // For suits, alternating color check: with odd gap, must differ; even gap, must match
-        if ((gap % 2 === 1) === (isRed(cur) === isRed(real))) break;
-      } else if (cur.kind !== 'excuse') {
-        break; // Mixed trump/suit
+function hintMarks(gs: PlayState, move: Move): HintMarks {
+  const cards = new Set<string>();
+  const piles = new Set<string>();
+  switch (move.type) {
+    case 'toColumn':
+    case 'toFoundation': {
+      const src = move.from;
+      if (src.from === 'excuse') { if (gs.excuseSlot) cards.add(gs.excuseSlot.id); }
+      else if (src.from === 'fdn') {
+        const fdn = gs.foundations[src.index];
+        if (fdn.length > 0) cards.add(fdn[fdn.length - 1].id);
+      } else if (move.type === 'toColumn' && move.from.from === 'col') {
+        gs.columns[src.index].slice(move.from.cardIndex).forEach(c => cards.add(c.id));
+      } else {
+        findSequenceForFoundation(gs.columns[src.index], move.to, gs.foundations, gs.trumpsMerged)
+          .forEach(c => cards.add(c.id));
       }
-      i--;
-      continue;
+      piles.add(move.type === 'toColumn' ? `col-${move.to}` : `fdn-${move.to}`);
+      break;
     }
+    case 'storeExcuse': cards.add('ex'); piles.add('excuse'); break;
+    case 'mergeTrumps': piles.add('fdn-4'); piles.add('fdn-5'); break;
+    case 'distribute': piles.add('stock'); break;
+  }
+  return { cards, piles };
+}
+
+const HINT_GLOW: React.CSSProperties = {
+  borderRadius: 'var(--card-r)',
+  animation: 'cheat-hint-glow 1.2s ease-in-out infinite',
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Keyboard cursor
+// ═══════════════════════════════════════════════════════════════════
+
+// What the keyboard cursor is on: a card of a column (any index in an empty
+// one), the excuse slot or a foundation. The stock needs no cursor: D deals.
+type BoardCursor =
+  | { pile: 'col'; index: number; cardIndex: number }
+  | { pile: 'excuse' }
+  | { pile: 'fdn'; index: number };
+
+// Drawn with an outline so that it shows alongside the amber selection and
+// the purple hint glow.
+const FOCUS_RING: React.CSSProperties = {
+  borderRadius: 'var(--card-r)',
+  outline: '2px solid #38bdf8',
+  outlineOffset: '2px',
+};
+
+// Same names as the drop targets: 'col-3', 'fdn-4', 'excuse'.
+function cursorPile(cursor: BoardCursor): string {
+  return cursor.pile === 'excuse' ? 'excuse' : `${cursor.pile}-${cursor.index}`;
+}
+
+// The piles under the columns, left to right. The descending trump pile is
+// gone once the trumps are merged.
+function bottomRow(gs: GameState): BoardCursor[] {
+  const fdns = gs.trumpsMerged ? [0, 1, 2, 3, 4] : [0, 1, 2, 3, 4, 5];
+  return [{ pile: 'excuse' }, ...fdns.map(index => ({ pile: 'fdn' as const, index }))];
+}
+
+function bottomCard(gs: GameState, index: number): BoardCursor {
+  return { pile: 'col', index, cardIndex: Math.max(0, gs.columns[index].length - 1) };
+}
 
-    // If cur is excuse, it's always valid in the sequence (transparent)
-    if (cur.kind === 'excuse') { i--; continue; }
+// Keep the cursor on something that exists after the board changed: in a
+// column it stays within the movable sequence.
+function clampCursor(gs: GameState, cursor: BoardCursor): BoardCursor {
+  if (cursor.pile === 'excuse') return cursor;
+  if (cursor.pile === 'fdn') return gs.trumpsMerged && cursor.index === 5 ? { pile: 'fdn', index: 4 } : cursor;
+  const col = gs.columns[cursor.index];
+  if (col.length === 0) return { ...cursor, cardIndex: 0 };
+  return { ...cursor, cardIndex: Math.min(Math.max(cursor.cardIndex, seqStart(col)), col.length - 1) };
+}
 
-    // Normal card-to-card check
-    if (cur.kind === 'trump' && prev.kind === 'trump') {
-      if (cur.value !== prev.value - 1) break;
-    } else if (cur.kind === 'suit' && prev.kind === 'suit') {
-      if (cur.value !== prev.value - 1 || isRed(cur) === isRed(prev)) break;
-    } else {
-      break; // Mixed trump/suit breaks the sequence
+// Left/right move along the columns or the bottom row, up/down through the
+// movable cards of a column and between the columns and the bottom row.
+function moveCursor(gs: GameState, cursor: BoardCursor, key: string): BoardCursor {
+  const nCols = gs.columns.length;
+  const row = bottomRow(gs);
+  if (cursor.pile === 'col') {
+    const col = gs.columns[cursor.index];
+    switch (key) {
+      case 'ArrowLeft': return bottomCard(gs, Math.max(0, cursor.index - 1));
+      case 'ArrowRight': return bottomCard(gs, Math.min(nCols - 1, cursor.index + 1));
+      case 'ArrowUp': return clampCursor(gs, { ...cursor, cardIndex: cursor.cardIndex - 1 });
+      case 'ArrowDown':
+        if (cursor.cardIndex < col.length - 1) return { ...cursor, cardIndex: cursor.cardIndex + 1 };
+        return row[Math.round((cursor.index / (nCols - 1)) * (row.length - 1))];
     }
-    i--;
+    return cursor;
+  }
+  const pos = row.findIndex(c => cursorPile(c) === cursorPile(cursor));
+  switch (key) {
+    case 'ArrowLeft': return row[Math.max(0, pos - 1)];
+    case 'ArrowRight': return row[Math.min(row.length - 1, pos + 1)];
+    case 'ArrowUp': return bottomCard(gs, Math.round((pos / (row.length - 1)) * (nCols - 1)));
   }
-  return i;
+  return cursor;
 }
 
-
 // ═══════════════════════════════════════════════════════════════════
-// State helpers
+// Undo / redo history
 // ═══════════════════════════════════════════════════════════════════
 
-function cloneGs(gs: GameState): GameState {
+// The game being played plus the snapshots on either side of it. Snapshots
+// are stored without selection or animation state.
+// The clock runs here rather than in the states, so that its ticks aren't
+// changes to the game; each state gets the time it was reached at.
+interface GameSession {
+  present: PlayState;
+  past: PlayState[];
+  future: PlayState[];
+  elapsedMs: number;
+}
+
+function newSession(gs: PlayState): GameSession {
+  return { present: gs, past: [], future: [], elapsedMs: gs.elapsedMs };
+}
+
+function snapshot(gs: PlayState): PlayState {
+  return { ...gs, selected: null, lastMove: null };
+}
+
+// A state change is an action worth recording when a card actually moved:
+// either the move counter changed or cards left the stock (distributions
+// don't count as moves).
+function isRecordedAction(prev: PlayState, next: PlayState): boolean {
+  return next.moves !== prev.moves || next.stock.length !== prev.stock.length;
+}
+
+function commitState(session: GameSession, next: PlayState): GameSession {
+  if (next === session.present) return session;
+  const present = { ...next, elapsedMs: session.elapsedMs };
+  if (!isRecordedAction(session.present, next)) return { ...session, present };
+  return {
+    ...session,
+    present,
+    past: [...session.past, snapshot(session.present)],
+    future: [],
+  };
+}
+
+// Cheat, hint and undo usage and the clock are carried over from the current
+// state so that going back in time can never re-arm a cheat that has already
+// been spent or win back a penalty.
+function restoreSnapshot(target: PlayState, current: PlayState): PlayState {
   return {
-    ...gs,
-    cheat: { ...gs.cheat, slowDistEligible: [...gs.cheat.slowDistEligible] },
-    columns: gs.columns.map(c => c.map(card => ({ ...card }))),
-    foundations: gs.foundations.map(f => f.map(card => ({ ...card }))),
-    stock: gs.stock.map(c => ({ ...c })),
-    excuseSlot: gs.excuseSlot ? { ...gs.excuseSlot } : null,
+    ...snapshot(target),
+    hintsUsed: current.hintsUsed,
+    undosUsed: current.undosUsed,
+    elapsedMs: current.elapsedMs,
+    cheat: cloneCheatState(current.cheat),
   };
 }
 
-function revealBottom(col: Card[]) {
-  if (col.length > 0 && !col[col.length - 1].faceUp)
-    col[col.length - 1].faceUp = true;
+function undoSession(session: GameSession): GameSession {
+  if (session.past.length === 0) return session;
+  const target = session.past[session.past.length - 1];
+  const present = restoreSnapshot(target, session.present);
+  return {
+    ...session,
+    present: { ...present, undosUsed: present.undosUsed + 1, elapsedMs: session.elapsedMs },
+    past: session.past.slice(0, -1),
+    future: [...session.future, snapshot(session.present)],
+  };
+}
+
+function redoSession(session: GameSession): GameSession {
+  if (session.future.length === 0) return session;
+  const target = session.future[session.future.length - 1];
+  return {
+    ...session,
+    present: { ...restoreSnapshot(target, session.present), elapsedMs: session.elapsedMs },
+    past: [...session.past, snapshot(session.present)],
+    future: session.future.slice(0, -1),
+  };
 }
 
-function getSelectedCard(gs: GameState): Card | null {
-  if (!gs.selected) return null;
-  if (gs.selected.from === 'excuse') return gs.excuseSlot;
-  if (gs.selected.from === 'fdn') {
-    const fdn = gs.foundations[gs.selected.index];
-    return fdn.length > 0 ? fdn[fdn.length - 1] : null;
+type SessionAction =
+  | ((prev: PlayState | null) => PlayState | null)
+  | { type: 'reset'; gs: PlayState }
+  // No game until the one being looked for is found
+  | { type: 'clear' }
+  // Time played since the previous tick
+  | { type: 'tick'; ms: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  // Changes folded into the current history entry, such as automatic moves
+  // that are undone together with the action that led to them
+  | { type: 'amend'; update: (prev: PlayState) => PlayState | null };
+
+function sessionReducer(session: GameSession | null, action: SessionAction): GameSession | null {
+  if (typeof action === 'function') {
+    if (!session) return session;
+    const next = action(session.present);
+    return next ? commitState(session, next) : session;
+  }
+  if (action.type === 'reset') return newSession(action.gs);
+  if (action.type === 'clear') return null;
+  if (!session) return session;
+  if (action.type === 'tick') {
+    return session.present.gameOver ? session : { ...session, elapsedMs: session.elapsedMs + action.ms };
+  }
+  if (action.type === 'amend') {
+    const next = action.update(session.present);
+    return next ? { ...session, present: { ...next, elapsedMs: session.elapsedMs } } : session;
   }
-  const col = gs.columns[gs.selected.index];
-  const ci = gs.selected.cardIndex;
-  return ci < col.length ? col[ci] : null;
+  return action.type === 'undo' ? undoSession(session) : redoSession(session);
 }
 
-function removeSelectedCards(gs: GameState): Card[] {
-  if (!gs.selected) return [];
-  if (gs.selected.from === 'excuse') {
-    const card = gs.excuseSlot;
-    gs.excuseSlot = null;
-    return card ? [card] : [];
+// ═══════════════════════════════════════════════════════════════════
+// Saved game
+// ═══════════════════════════════════════════════════════════════════
+
+// The game in progress is saved after every change and resumed on load.
+// Bump SAVE_VERSION whenever Card, GameState or PlayState change shape, and
+// teach parseSavedGame to upgrade the older versions it still can.
+const SAVE_KEY = 'reussite:partie';
+const SAVE_VERSION = 6;
+
+const isCount = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 0;
+
+const isCheatId = (v: unknown): v is string => typeof v === 'string' && findCheat(v) !== null;
+
+// Before version 6 the two original cheats had fields of their own.
+function parseLegacyCheatState(c: Record<string, unknown>): CheatState | null {
+  if (typeof c.peekUsed !== 'boolean' || typeof c.slowDistUsed !== 'boolean'
+    || typeof c.slowDistMode !== 'boolean') return null;
+  if (c.activeCheat !== null && c.activeCheat !== 'peek' && c.activeCheat !== 'slowDist') return null;
+  if (!Array.isArray(c.slowDistEligible) || !c.slowDistEligible.every(isCount)) return null;
+  const actions: GameAction[] = c.slowDistEligible.map(to => ({ type: 'dealCard', to }));
+  const run: CheatRun | null = c.activeCheat !== null ? { id: c.activeCheat, phase: 'animation' }
+    : c.slowDistMode ? { id: 'slowDist', phase: 'steps', actions }
+    : null;
+  return { uses: { peek: c.peekUsed ? 1 : 0, slowDist: c.slowDistUsed ? 1 : 0 }, run };
+}
+
+function parseCheatRun(v: unknown): CheatRun | null | undefined {
+  if (v === null) return null;
+  if (typeof v !== 'object') return undefined;
+  const r = v as Record<string, unknown>;
+  if (!isCheatId(r.id)) return undefined;
+  if (r.phase === 'animation' || r.phase === 'target') return { id: r.id, phase: r.phase };
+  if (r.phase === 'reveal' && Array.isArray(r.cardIds) && r.cardIds.every(id => typeof id === 'string')
+    && typeof r.ms === 'number') {
+    return { id: r.id, phase: 'reveal', cardIds: [...r.cardIds], ms: r.ms };
   }
-  if (gs.selected.from === 'fdn') {
-    const fdn = gs.foundations[gs.selected.index];
-    const card = fdn.pop();
-    return card ? [card] : [];
+  const actions = r.phase === 'steps' ? parseGameActions(r.actions) : null;
+  if (actions) return { id: r.id, phase: 'steps', actions };
+  return undefined;
+}
+
+// Steps left are played through playMove, which rejects any action that
+// doesn't fit the board.
+function parseCheatState(v: unknown, version: number): CheatState | null {
+  if (typeof v !== 'object' || v === null) return null;
+  const c = v as Record<string, unknown>;
+  if (version < 6) return parseLegacyCheatState(c);
+  if (typeof c.uses !== 'object' || c.uses === null) return null;
+  const uses: Record<string, number> = {};
+  for (const [id, n] of Object.entries(c.uses)) {
+    if (!isCheatId(id) || !isCount(n)) return null;
+    uses[id] = n;
   }
-  const col = gs.columns[gs.selected.index];
-  const removed = col.splice(gs.selected.cardIndex);
-  revealBottom(col);
-  return removed;
+  const run = parseCheatRun(c.run);
+  return run === undefined ? null : { uses, run };
 }
 
-function cardTopCss(col: Card[], idx: number): string {
-  const fdi = col.findIndex(c => c.faceUp);
-  const fd = fdi < 0 ? col.length : fdi;
-  return `calc(${Math.min(idx, fd)} * var(--peek-down) + ${Math.max(0, idx - fd)} * var(--peek-up))`;
+function parseDailyAttempt(v: unknown): DailyAttempt | null {
+  if (typeof v !== 'object' || v === null) return null;
+  const a = v as Record<string, unknown>;
+  return typeof a.day === 'string' && typeof a.player === 'string' ? { day: a.day, player: a.player } : null;
 }
 
-function colHeight(col: Card[]): string {
-  if (col.length === 0) return 'var(--card-h)';
-  const fdi = col.findIndex(c => c.faceUp);
-  const fd = fdi < 0 ? col.length : fdi;
-  const fu = Math.max(0, col.length - fd - 1);
-  return `calc(${fd} * var(--peek-down) + ${fu} * var(--peek-up) + var(--card-h))`;
+// Versions 1 and 2 had no action log, which can't be rebuilt: they are
+// dropped. Version 3 predates the daily challenge, so its game isn't one,
+// versions 3 and 4 predate variants, so their game is classic (see
+// parseGameState), and versions 3 to 5 predate the cheat registry. The log
+// must be made of well-formed actions that lead to the saved board.
+function parseSavedGame(data: unknown, version: number): PlayState | null {
+  if (version < 3 || version > SAVE_VERSION || typeof data !== 'object' || data === null) return null;
+  const d = data as Record<string, unknown>;
+  const board = parseGameState(d);
+  const cheat = parseCheatState(d.cheat, version);
+  if (!board || !cheat || !isCount(d.hintsUsed) || !isCount(d.undosUsed)) return null;
+  const log = parseGameActions(d.log);
+  if (typeof d.elapsedMs !== 'number' || !(d.elapsedMs >= 0) || !log) return null;
+  const replayed = replayRecord({ seed: board.seed, variant: board.variant, actions: log });
+  if (!replayed || positionKey(replayed) !== positionKey(board) || replayed.moves !== board.moves) return null;
+  let daily: DailyAttempt | null = null;
+  if (version !== 3 && d.daily !== null) {
+    daily = parseDailyAttempt(d.daily);
+    if (!daily) return null;
+  }
+  return {
+    ...board, selected: null, lastMove: null, log,
+    hintsUsed: d.hintsUsed, undosUsed: d.undosUsed, elapsedMs: d.elapsedMs, cheat, daily,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Imported games
+// ═══════════════════════════════════════════════════════════════════
+
+// A game pasted into the history panel starts over from its final position.
+// Some actions can only come from a cheat (a single card dealt, for the slow
+// distribution), so a game that has them is marked as having used it.
+function importedGame(state: GameState, log: GameAction[]): PlayState {
+  const fresh = newGameState(state.seed, state.variant);
+  const uses: Record<string, number> = {};
+  for (const cheat of CHEATS) {
+    if (cheat.recordedAs && log.some(a => a.type === cheat.recordedAs)) uses[cheat.id] = 1;
+  }
+  return { ...fresh, ...state, log, cheat: { ...fresh.cheat, uses } };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Replay
+// ═══════════════════════════════════════════════════════════════════
+
+const REPLAY_STEP_MS = 900;
+const FINISH_STEP_MS = 150;
+const AUTO_COLLECT_DELAY_MS = 350;
+
+// frames[0] is the deal and frames[i] the position after the i-th action of
+// the log. Stepping backwards shows a frame without its landing animation.
+interface ReplayState {
+  frames: PlayState[];
+  step: number;
+  playing: boolean;
+  speed: number;
+  forward: boolean;
+}
+
+// Counters and cheats are the live game's, so that resuming from a frame
+// keeps them (see restoreSnapshot).
+function replayFrames(gs: PlayState): PlayState[] {
+  const base = snapshot(gs);
+  let board: GameState = dealGame(gs.seed, gs.variant);
+  const frames: PlayState[] = [{ ...base, ...board, log: [] }];
+  gs.log.forEach((action, i) => {
+    const result = applyAction(board, action);
+    if (!result.ok) return;
+    board = result.state;
+    frames.push({ ...base, ...board, log: gs.log.slice(0, i + 1), lastMove: lastMoveFor(action) });
+  });
+  return frames;
+}
+
+function replayFrame(replay: ReplayState): PlayState {
+  const frame = replay.frames[replay.step];
+  return replay.forward ? frame : { ...frame, lastMove: null };
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -469,13 +692,31 @@ function SparkleOverlay() {
 // Card sub-components
 // ═══════════════════════════════════════════════════════════════════
 
-function CardFace({ card, selected, landing, appearing, appearDelay, onClick, onDoubleClick, onTouchStart, onTouchEnd, onPointerDown, onPointerMove, onPointerUp }: {
+// What a clickable element other than a <button> needs to be one from the
+// keyboard: a place in the tab order, and Enter and Space to press it. The
+// key doesn't reach the board's own handler (see "Keyboard control").
+function pressable(onPress: (e: React.SyntheticEvent) => void, disabled = false) {
+  if (disabled) return {};
+  return {
+    tabIndex: 0,
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key !== 'Enter' && e.key !== ' ') return;
+      e.preventDefault();
+      e.stopPropagation();
+      onPress(e);
+    },
+  };
+}
+
+function CardFace({ card, selected, landing, appearing, appearDelay, hinted, focused, onClick, onDoubleClick, onTouchStart, onTouchEnd, onPointerDown, onPointerMove, onPointerUp }: {
   card: Card;
   selected?: boolean;
   landing?: boolean;
   appearing?: boolean;
   appearDelay?: number;
-  onClick?: (e: React.MouseEvent) => void;
+  hinted?: boolean;
+  focused?: boolean;
+  onClick?: (e: React.SyntheticEvent) => void;
   onDoubleClick?: (e: React.MouseEvent) => void;
   onTouchStart?: (e: React.TouchEvent) => void;
   onTouchEnd?: (e: React.TouchEvent) => void;
@@ -483,11 +724,19 @@ function CardFace({ card, selected, landing, appearing, appearDelay, onClick, on
   onPointerMove?: (e: React.PointerEvent) => void;
   onPointerUp?: (e: React.PointerEvent) => void;
 }) {
+  const t = useMessages();
   const color = textColor(card);
   const bg = cardBg(card, !!selected);
   const border = cardBorderColor(card, !!selected);
   const isExcuse = card.kind === 'excuse';
   const isTrump = card.kind === 'trump';
+  // On cards big enough, the watermark in the middle gives way to artwork
+  // (see .card-art in globals.css).
+  const watermark = hasArt(card) ? 'card-compact' : undefined;
+  const artBox: React.CSSProperties = {
+    position: 'absolute', left: '12%', width: '76%',
+    top: 'calc(var(--card-fs) * 2)', height: 'calc(100% - var(--card-fs) * 4)',
+  };
 
   const animStyle: React.CSSProperties = {};
   if (landing) {
@@ -496,10 +745,18 @@ function CardFace({ card, selected, landing, appearing, appearDelay, onClick, on
     animStyle.animation = 'card-selected 0.2s ease-out forwards, glow-pulse 1.2s ease-in-out 0.2s infinite';
   } else if (appearing) {
     animStyle.animation = `card-appear 0.4s ${(appearDelay ?? 0) * 0.07}s ease-out both`;
+  } else if (hinted) {
+    animStyle.animation = HINT_GLOW.animation;
   }
 
+  // A card that can be clicked is a toggle button (pressed when selected);
+  // otherwise it's only read out by name.
   return (
     <div
+      role={onClick ? 'button' : 'img'}
+      aria-label={cardName(card, t)}
+      aria-pressed={onClick ? !!selected : undefined}
+      {...(onClick && pressable(onClick))}
       onClick={onClick}
       onDoubleClick={onDoubleClick}
       onTouchStart={onTouchStart}
@@ -526,32 +783,38 @@ function CardFace({ card, selected, landing, appearing, appearDelay, onClick, on
         color,
         overflow: 'hidden', position: 'relative',
         transition: 'background 0.15s, border-color 0.15s, box-shadow 0.15s',
+        ...(focused ? FOCUS_RING : undefined),
         ...animStyle,
       }}
     >
       {isExcuse ? (
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
-          <div style={{
+          <div className={watermark} style={{
             fontSize: 'var(--card-fs-lg)', lineHeight: 1, fontWeight: 800,
             textShadow: '0 0 8px rgba(251,191,36,0.4)',
           }}>?</div>
+          <CardArt card={card} style={{
+            width: 'calc(var(--card-w) * 0.7)', height: 'calc(var(--card-w) * 0.7)',
+            filter: 'drop-shadow(0 0 4px rgba(251,191,36,0.4))',
+          }} />
           <div style={{
             fontSize: 'calc(var(--card-fs) * 0.55)', fontWeight: 700,
             lineHeight: 1.2, letterSpacing: '0.05em',
             textTransform: 'uppercase', opacity: 0.7,
-          }}>Excuse</div>
+          }}>{t.board.excuse}</div>
         </div>
       ) : isTrump ? (
         <>
           <div style={{ fontSize: 'var(--card-fs)', fontWeight: 900, lineHeight: 1, letterSpacing: '-0.02em' }}>
-            {displayVal(card)}
+            {displayVal(card, t)}
           </div>
-          <div style={{
+          <div className={watermark} style={{
             position: 'absolute', top: '50%', left: '50%',
             transform: 'translate(-50%, -50%)',
             fontSize: 'var(--card-fs-lg)', lineHeight: 1,
             opacity: 0.15, fontWeight: 900, letterSpacing: '-0.03em',
-          }}>{displayVal(card)}</div>
+          }}>{displayVal(card, t)}</div>
+          <CardArt card={card} style={{ ...artBox, opacity: 0.85 }} />
           <div style={{
             position: 'absolute', top: 0, left: '15%', right: '15%', height: '1.5px',
             background: 'linear-gradient(90deg, transparent, #fbbf24, transparent)', opacity: 0.4,
@@ -560,7 +823,7 @@ function CardFace({ card, selected, landing, appearing, appearDelay, onClick, on
             position: 'absolute', bottom: 'calc(var(--card-fs) * 0.2)',
             right: 'calc(var(--card-fs) * 0.25)',
             fontSize: 'var(--card-fs)', fontWeight: 900, lineHeight: 1, transform: 'rotate(180deg)',
-          }}>{displayVal(card)}</div>
+          }}>{displayVal(card, t)}</div>
         </>
       ) : (
         <>
@@ -568,21 +831,22 @@ function CardFace({ card, selected, landing, appearing, appearDelay, onClick, on
             fontSize: 'var(--card-fs)', fontWeight: 800, lineHeight: 1.05,
             display: 'flex', flexDirection: 'column', alignItems: 'center',
           }}>
-            <span>{displayVal(card)}</span>
+            <span>{displayVal(card, t)}</span>
             <span style={{ fontSize: 'calc(var(--card-fs) * 0.85)' }}>{suitSym(card)}</span>
           </div>
-          <div style={{
+          <div className={watermark} style={{
             position: 'absolute', top: '50%', left: '50%',
             transform: 'translate(-50%, -50%)',
             fontSize: 'var(--card-fs-lg)', lineHeight: 1, opacity: 0.2, fontWeight: 700,
           }}>{suitSym(card)}</div>
+          <CardArt card={card} style={artBox} />
           <div style={{
             position: 'absolute', bottom: 'calc(var(--card-fs) * 0.2)',
             right: 'calc(var(--card-fs) * 0.2)',
             fontSize: 'var(--card-fs)', fontWeight: 800, lineHeight: 1.05,
             display: 'flex', flexDirection: 'column', alignItems: 'center', transform: 'rotate(180deg)',
           }}>
-            <span>{displayVal(card)}</span>
+            <span>{displayVal(card, t)}</span>
             <span style={{ fontSize: 'calc(var(--card-fs) * 0.85)' }}>{suitSym(card)}</span>
           </div>
         </>
@@ -592,17 +856,21 @@ function CardFace({ card, selected, landing, appearing, appearDelay, onClick, on
   );
 }
 
-function CardBack({ onClick }: { onClick?: (e: React.MouseEvent) => void }) {
+function CardBack({ onClick }: { onClick?: (e: React.SyntheticEvent) => void }) {
+  const t = useMessages();
   return (
     <div
+      role={onClick ? 'button' : 'img'}
+      aria-label={t.speech.hidden}
+      {...(onClick && pressable(onClick))}
       onClick={onClick}
       className="select-none"
       style={{
         width: 'var(--card-w)', height: 'var(--card-h)',
         borderRadius: 'var(--card-r)',
-        border: '1.5px solid #334155',
+        border: '1.5px solid var(--back-edge)',
         boxShadow: '0 1px 4px rgba(0,0,0,0.4)',
-        background: 'linear-gradient(135deg, #1e293b 0%, #334155 50%, #1e293b 100%)',
+        background: 'var(--back)',
         cursor: onClick ? 'pointer' : 'default',
         position: 'relative', overflow: 'hidden',
       }}
@@ -610,13 +878,14 @@ function CardBack({ onClick }: { onClick?: (e: React.MouseEvent) => void }) {
       <div style={{
         position: 'absolute', inset: '3px',
         borderRadius: 'calc(var(--card-r) - 2px)',
-        border: '1px solid rgba(255,255,255,0.06)',
-        background: `repeating-linear-gradient(45deg,transparent,transparent 4px,rgba(255,255,255,0.03) 4px,rgba(255,255,255,0.03) 5px)`,
+        border: '1px solid var(--back-frame)',
+        background: 'var(--back-pattern)',
       }} />
     </div>
   );
 }
 
+// Left out of the accessibility tree: the pile around it says it's empty.
 function EmptySlot({ label, onClick, color }: {
   label: string;
   onClick?: (e: React.MouseEvent) => void;
@@ -624,19 +893,20 @@ function EmptySlot({ label, onClick, color }: {
 }) {
   return (
     <div
+      aria-hidden
       onClick={onClick}
       className="select-none flex items-center justify-center"
       style={{
         width: 'var(--card-w)', height: 'var(--card-h)',
         borderRadius: 'var(--card-r)',
-        border: `1.5px dashed ${color ?? 'rgba(255,255,255,0.1)'}`,
-        color: color ?? 'rgba(255,255,255,0.2)',
+        border: `1.5px dashed ${color ?? 'var(--felt-line)'}`,
+        color: color ?? 'var(--felt-dim)',
         fontSize: 'var(--card-fs)',
         fontFamily: "'SF Pro Display', -apple-system, sans-serif",
         fontWeight: 700,
         cursor: onClick ? 'pointer' : 'default',
         lineHeight: 1.1, textAlign: 'center', whiteSpace: 'pre-line',
-        background: 'rgba(255,255,255,0.02)',
+        background: 'var(--felt-fill)',
       }}
     >
       {label}
@@ -645,23 +915,26 @@ function EmptySlot({ label, onClick, color }: {
 }
 
 const FDN_CONFIG: { emptyLabel: string; color: string }[] = [
-  { emptyLabel: '♥', color: 'rgba(220,38,38,0.35)' },
-  { emptyLabel: '♦', color: 'rgba(220,38,38,0.35)' },
-  { emptyLabel: '♣', color: 'rgba(255,255,255,0.2)' },
-  { emptyLabel: '♠', color: 'rgba(255,255,255,0.2)' },
+  { emptyLabel: '♥', color: 'rgba(var(--ink-hearts),0.35)' },
+  { emptyLabel: '♦', color: 'rgba(var(--ink-diamonds),0.35)' },
+  { emptyLabel: '♣', color: 'var(--felt-dim)' },
+  { emptyLabel: '♠', color: 'var(--felt-dim)' },
   { emptyLabel: '1↑', color: 'rgba(251,191,36,0.3)' },
   { emptyLabel: '21↓', color: 'rgba(251,191,36,0.3)' },
 ];
 
-function FoundationSlot({ fdn, fi, onClick, landing, dirLabel, selected, onPointerDown }: {
+function FoundationSlot({ fdn, fi, onClick, landing, auto, dirLabel, selected, hinted, onPointerDown }: {
   fdn: Card[];
   fi: number;
   onClick: () => void;
   landing?: boolean;
+  auto?: boolean;
   dirLabel?: string;
   selected?: boolean;
+  hinted?: boolean;
   onPointerDown?: (e: React.PointerEvent) => void;
 }) {
+  const t = useMessages();
   const cfg = FDN_CONFIG[fi];
 
   if (fdn.length === 0) {
@@ -676,14 +949,23 @@ function FoundationSlot({ fdn, fi, onClick, landing, dirLabel, selected, onPoint
 
   return (
     <div
+      data-card-id={topCard.id}
       onClick={onClick}
       className="relative cursor-pointer"
       style={{
-        animation: landing ? 'fdn-glow 0.6s ease-out' : undefined,
+        animation: landing ? (auto ? 'fdn-auto-glow 0.8s ease-out' : 'fdn-glow 0.6s ease-out') : undefined,
         borderRadius: 'var(--card-r)',
       }}
     >
-      <CardFace card={topCard} selected={selected} landing={landing} onPointerDown={onPointerDown} />
+      <CardFace card={topCard} selected={selected} landing={landing} hinted={hinted} onPointerDown={onPointerDown} />
+      {landing && auto && (
+        <div className="absolute" style={{
+          top: '-4px', left: '50%', transform: 'translateX(-50%)',
+          background: '#0f766e', color: '#ccfbf1', borderRadius: '999px',
+          padding: '0 4px', fontSize: 'calc(var(--card-fs) * 0.55)', fontWeight: 700,
+          fontFamily: "'SF Pro Display', -apple-system, sans-serif", pointerEvents: 'none',
+        }}>{t.board.auto}</div>
+      )}
       <div
         className="absolute flex items-center justify-center"
         style={{
@@ -721,13 +1003,65 @@ function FoundationSlot({ fdn, fi, onClick, landing, dirLabel, selected, onPoint
   );
 }
 
+// ═══════════════════════════════════════════════════════════════════
+// Card travel
+// ═══════════════════════════════════════════════════════════════════
+
+const TRAVEL_MS = 280;
+// Between cards that set off one after the other
+const TRAVEL_STAGGER_MS = 70;
+// More cards than this changing pile at once (a new deal, a jump in a
+// replay) just appear in their new place.
+const MAX_TRIPS = 30;
+
+// The board is measured before it's painted, which only happens in the browser.
+const useBrowserLayoutEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect;
+
+interface Point { x: number; y: number }
+
+// Page position of each element carrying `attribute`, by the attribute's value.
+function measure(attribute: string): Map<string, Point> {
+  const points = new Map<string, Point>();
+  document.querySelectorAll<HTMLElement>(`[${attribute}]`).forEach(el => {
+    const r = el.getBoundingClientRect();
+    points.set(el.getAttribute(attribute)!, { x: r.left + window.scrollX, y: r.top + window.scrollY });
+  });
+  return points;
+}
+
+// A copy of a card travelling to a pile where it ends up hidden
+interface Ghost {
+  key: string;
+  card: Card;
+  // Where it lands, in the viewport, and how far away it sets off from
+  to: Point;
+  dx: number;
+  dy: number;
+  delay: number;
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // Main Page Component
 // ═══════════════════════════════════════════════════════════════════
 
 export default function Page() {
-  const [gs, setGs] = useState<GameState | null>(null);
+  // Game updates are dispatched through the session reducer so that actions
+  // are recorded in the undo history.
+  const [session, setGs] = useReducer(sessionReducer, null);
   const [mounted, setMounted] = useState(false);
+  // A Facile or Difficile deal being looked for (see "Deal search" below)
+  const [dealSearch, setDealSearch] = useState<DealSearch | null>(null);
+  // A search that came up empty, until the player tries again or settles for
+  // a Normal deal
+  const [failedSearch, setFailedSearch] = useState<DealSearch | null>(null);
+  const live = session?.present ?? null;
+
+  // While a game is replayed the board shows the replay's frame and can't be
+  // played on; the live game stays as it was underneath.
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const gs = useMemo(() => (replay ? replayFrame(replay) : live), [replay, live]);
+  // Moves still to play by the automatic finish
+  const [finishQueue, setFinishQueue] = useState<Move[] | null>(null);
 
   // Touch drag state for card selection
   const touchStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
@@ -748,11 +1082,57 @@ export default function Page() {
   const dragRef = useRef<DragState | null>(null);
   const boardRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    setGs(newGameState());
-    setMounted(true);
+  // The players sharing the device (see "Profiles" below)
+  const [profiles, setProfiles] = useState<Profiles>(defaultProfiles);
+  const profileId = profiles.active;
+
+  // Each profile has its own game in progress. It's saved on every change to
+  // the game, and with the clock's latest time when the page is hidden or
+  // another player takes over.
+  const sessionRef = useRef<GameSession | null>(null);
+  useEffect(() => { sessionRef.current = session; }, [session]);
+
+  const saveGame = useCallback((id: string) => {
+    const current = sessionRef.current;
+    if (!current) return;
+    const key = profileKey(SAVE_KEY, id);
+    if (current.present.gameOver) removeStored(key);
+    else writeStored(key, SAVE_VERSION, { ...snapshot(current.present), elapsedMs: current.elapsedMs });
   }, []);
 
+  useEffect(() => { if (live) saveGame(profileId); }, [live, profileId, saveGame]);
+
+  useEffect(() => {
+    const onVisibilityChange = () => { if (document.hidden) saveGame(profileId); };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [profileId, saveGame]);
+
+  // ─── Clock ─────────────────────────────────────────────────────
+  // Ticks every second while a game is in progress. Time spent with the tab
+  // hidden or watching a replay isn't counted.
+  const clockRunning = !!live && !live.gameOver && !replay;
+  useEffect(() => {
+    if (!clockRunning) return;
+    let last = performance.now();
+    // Adds the time since the previous call, unless it was spent hidden
+    const tick = (counted: boolean) => {
+      const now = performance.now();
+      const delta = now - last;
+      last = now;
+      if (!counted) return;
+      setGs({ type: 'tick', ms: delta });
+    };
+    // Hiding the tab ends a visible stretch, showing it again ends a hidden one
+    const onVisibilityChange = () => tick(document.hidden);
+    const timer = setInterval(() => tick(!document.hidden), 1000);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [clockRunning]);
+
   useEffect(() => {
     if (!gs?.lastMove) return;
     const dur = gs.lastMove.type === 'distribute' ? 900 : 700;
@@ -762,29 +1142,244 @@ export default function Page() {
     return () => clearTimeout(t);
   }, [gs?.moves, gs?.stock?.length]);
 
-  const restart = useCallback(() => { setPeekMode(false); setPeekCol(null); setGs(newGameState()); }, []);
+  // ─── Statistics ────────────────────────────────────────────────
+  // A game is recorded once: when it's won, or as a loss when it's left for
+  // another deal after at least one move. A daily challenge attempt also goes
+  // to the daily leaderboard, and counts even if left without a move.
+  const [stats, setStats] = useState<PlayerStats>(emptyStats);
+  const [showStats, setShowStats] = useState(false);
+  const [dailyResults, setDailyResults] = useState<DailyResult[]>([]);
+  const resultRecordedRef = useRef(false);
+
+  const recordGame = useCallback((game: PlayState) => {
+    if (resultRecordedRef.current) return;
+    resultRecordedRef.current = true;
+    const result = gameResult(game);
+    setStats(prev => {
+      const next = recordResult(prev, result);
+      saveStats(profileId, next);
+      return next;
+    });
+    const daily = dailyResult(game, profileId);
+    if (daily) {
+      setDailyResults(prev => {
+        const next = recordDailyResult(prev, daily);
+        saveDailyResults(next);
+        return next;
+      });
+    }
+  }, [profileId]);
+
+  const resetStats = useCallback(() => {
+    const next = emptyStats();
+    saveStats(profileId, next);
+    setStats(next);
+  }, [profileId]);
+
+  // ─── Settings ──────────────────────────────────────────────────
+  const [settings, setSettings] = useState<Settings>(defaultSettings);
+  const [showSettings, setShowSettings] = useState(false);
+
+  // The interface texts, passed down through MessagesContext
+  const t = MESSAGES[settings.locale];
+  useEffect(() => { document.documentElement.lang = settings.locale; }, [settings.locale]);
+
+  // The theme is applied through CSS variables, so everything repaints at once.
+  useEffect(() => {
+    const root = document.documentElement.style;
+    for (const [name, value] of Object.entries(themeVariables(settings))) root.setProperty(name, value);
+  }, [settings]);
+
+  const updateSettings = useCallback((change: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...change };
+      saveSettings(profileId, next);
+      return next;
+    });
+  }, [profileId]);
+
+  // Sound belongs to the device, not to the profile (see lib/sound.ts).
+  const [sound, setSound] = useState<SoundSettings>(defaultSoundSettings);
+
+  const updateSound = useCallback((change: Partial<SoundSettings>) => {
+    setSound(prev => {
+      const next = { ...prev, ...change };
+      saveSoundSettings(next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => { if (live?.gameOver) recordGame(live); }, [live, recordGame]);
+
+  // An imported game that is already won isn't counted as a victory.
+  const startGame = useCallback((next: PlayState) => {
+    const left = sessionRef.current;
+    if (left && !left.present.gameOver && (left.present.moves > 0 || left.present.daily)) {
+      recordGame({ ...left.present, elapsedMs: left.elapsedMs });
+    }
+    resultRecordedRef.current = next.gameOver;
+    setReplay(null); setFinishQueue(null); setFailedSearch(null);
+    setGs({ type: 'reset', gs: next });
+  }, [recordGame]);
+  // New deals follow the rules chosen in the settings; a deal played again
+  // keeps the rules it was played under.
+  const newDealVariant = findVariant(settings.variant) ?? CLASSIC;
+  const startDeal = useCallback(
+    (seed: number) => startGame(newGameState(seed, newDealVariant)),
+    [startGame, newDealVariant],
+  );
+  const restart = useCallback(() => {
+    if (settings.difficulty === 'normal') startDeal(randomSeed());
+    else setDealSearch({ difficulty: settings.difficulty, variant: newDealVariant });
+  }, [settings.difficulty, newDealVariant, startDeal]);
+  const replayDeal = useCallback(() => {
+    if (gs) startGame(newGameState(gs.seed, gs.variant));
+  }, [gs, startGame]);
+
+  // ─── Deal search ──────────────────────────────────────────────
+  // Facile and Difficile deals are found by running the solver on candidate
+  // deals in a worker. The board is locked meanwhile; cancelling keeps the
+  // current game. If nothing is found, or the worker fails, the player is told
+  // and chooses between another search and an unfiltered deal: a deal that
+  // wasn't proven winnable is never passed off as Facile.
+  const [foundDeal, setFoundDeal] = useState<{ seed: number; variant: Variant } | null>(null);
+
+  useEffect(() => {
+    if (!dealSearch) return;
+    setFailedSearch(null);
+    const worker = new Worker(new URL('../lib/deal.worker.ts', import.meta.url));
+    const fail = () => {
+      setFailedSearch(dealSearch);
+      setDealSearch(null);
+    };
+    worker.onmessage = (e: MessageEvent<DealResponse>) => {
+      if (e.data.seed === null) { fail(); return; }
+      setFoundDeal({ seed: e.data.seed, variant: dealSearch.variant });
+      setDealSearch(null);
+    };
+    worker.onerror = fail;
+    const request: DealRequest = { difficulty: dealSearch.difficulty, variant: dealSearch.variant.id, start: randomSeed() };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }, [dealSearch]);
+
+  useEffect(() => {
+    if (!foundDeal) return;
+    setFoundDeal(null);
+    startGame(newGameState(foundDeal.seed, foundDeal.variant));
+  }, [foundDeal, startGame]);
+
+  // ─── Profiles ─────────────────────────────────────────────────
+  // Switching to another player puts their game back on the board; the game
+  // left isn't counted as a loss, as it's kept for when they come back.
+  const [showProfiles, setShowProfiles] = useState(false);
+  const profile = activeProfile(profiles);
+
+  // Resumes the profile's saved game, or deals a new one under its settings.
+  // An explicit ?seed= wins over the saved game; finished games aren't resumed.
+  const openProfile = useCallback((id: string, urlSeed: number | null) => {
+    const saved = urlSeed === null ? readStored(profileKey(SAVE_KEY, id), parseSavedGame) : null;
+    const loaded = loadSettings(id);
+    setSettings(loaded);
+    setStats(loadStats(id));
+    setReplay(null); setFinishQueue(null); setDealSearch(null); setFailedSearch(null);
+    resultRecordedRef.current = false;
+    const variant = findVariant(loaded.variant) ?? CLASSIC;
+    if (saved && !saved.gameOver) setGs({ type: 'reset', gs: saved });
+    else if (urlSeed !== null || loaded.difficulty === 'normal') setGs({ type: 'reset', gs: newGameState(urlSeed ?? randomSeed(), variant) });
+    else { setGs({ type: 'clear' }); setDealSearch({ difficulty: loaded.difficulty, variant }); }
+  }, []);
+
+  // Before profiles, the daily challenge name was a setting: it names the
+  // first profile.
+  useEffect(() => {
+    const loaded = loadProfiles(legacyPlayerName()?.slice(0, MAX_PLAYER_NAME) ?? DEFAULT_PLAYER_NAME);
+    setProfiles(loaded);
+    setDailyResults(loadDailyResults(loaded.list));
+    setSound(loadSoundSettings());
+    openProfile(loaded.active, parseSeed(new URLSearchParams(window.location.search).get('seed')));
+    setMounted(true);
+  }, [openProfile]);
+
+  const updateProfiles = useCallback((next: Profiles) => {
+    saveProfiles(next);
+    setProfiles(next);
+  }, []);
+
+  const switchProfile = useCallback((id: string) => {
+    if (id === profileId) return;
+    saveGame(profileId);
+    updateProfiles({ ...profiles, active: id });
+    openProfile(id, null);
+  }, [profiles, profileId, saveGame, updateProfiles, openProfile]);
+
+  const addProfile = useCallback(() => {
+    const next = withNewProfile(profiles, t.profiles.newName(profiles.list.length + 1));
+    saveGame(profileId);
+    updateProfiles(next);
+    openProfile(next.active, null);
+  }, [profiles, profileId, t, saveGame, updateProfiles, openProfile]);
+
+  // Changes the active profile.
+  const updateProfile = useCallback((change: Partial<Omit<Profile, 'id'>>) => {
+    updateProfiles({ ...profiles, list: profiles.list.map(p => p.id === profileId ? { ...p, ...change } : p) });
+  }, [profiles, profileId, updateProfiles]);
+
+  // Everything kept for the profile goes with it; the last one can't be removed.
+  const removeProfile = useCallback((id: string) => {
+    const list = profiles.list.filter(p => p.id !== id);
+    if (list.length === 0) return;
+    removeStored(profileKey(SAVE_KEY, id));
+    removeSettings(id);
+    removeStats(id);
+    const active = id === profileId ? list[0].id : profileId;
+    updateProfiles({ ...profiles, list, active });
+    if (active !== profileId) openProfile(active, null);
+  }, [profiles, profileId, updateProfiles, openProfile]);
+
+  // ─── Daily challenge ──────────────────────────────────────────
+  // Today's deal is scored once per player; past days (and today's once
+  // played) can be replayed as ordinary, unscored deals. Always classic, so
+  // that every player gets the same game.
+  const [showDaily, setShowDaily] = useState(false);
+  const today = dayKey(new Date());
+  const player = profileName(profile);
+  const dailyStatus: DailyStatus =
+    live?.daily?.day === today && !live.gameOver ? 'in-progress'
+      : hasPlayed(dailyResults, today, profileId) ? 'played' : 'available';
+
+  const playDaily = useCallback(() => {
+    setShowDaily(false);
+    if (dailyStatus !== 'available') return;
+    startGame(newGameState(dailySeed(today), CLASSIC, { day: today, player }));
+  }, [dailyStatus, today, player, startGame]);
+
+  const replayDailyDeal = useCallback((day: string) => {
+    setShowDaily(false);
+    startGame(newGameState(dailySeed(day)));
+  }, [startGame]);
+
+  // ─── Game record (history panel) ──────────────────────────────
+  const seed = live?.seed;
+  const variant = live?.variant;
+  const log = live?.log;
+  const record = useMemo(
+    () => (seed !== undefined && variant && log ? { seed, variant, actions: log } : null),
+    [seed, variant, log],
+  );
+
+  const importGame = useCallback((text: string): string | null => {
+    const result = parseRecord(text);
+    if (!result.ok) return t.recordError(result.line, result.error);
+    startGame(importedGame(result.state, result.record.actions));
+    return null;
+  }, [startGame, t]);
 
   // ─── Distribute (skip columns containing a face-up King) ───────
   const distribute = useCallback(() => {
     setGs(prev => {
       if (!prev || prev.gameOver || prev.stock.length === 0) return prev;
-      const s = cloneGs(prev);
-      // Find eligible columns (no visible King anywhere)
-      const eligible: number[] = [];
-      for (let i = 0; i < 11; i++) {
-        if (!hasVisibleKing(s.columns[i])) {
-          eligible.push(i);
-        }
-      }
-      const count = Math.min(s.stock.length, eligible.length);
-      for (let i = 0; i < count; i++) {
-        const card = s.stock.pop()!;
-        card.faceUp = true;
-        s.columns[eligible[i]].push(card);
-      }
-      s.selected = null;
-      s.lastMove = { type: 'distribute' };
-      return s;
+      return playMove(prev, { type: 'distribute' }) ?? prev;
     });
   }, []);
 
@@ -792,59 +1387,37 @@ export default function Page() {
   const clickCard = useCallback((ci: number, cardIdx: number) => {
     setGs(prev => {
       if (!prev || prev.gameOver) return prev;
-      const s = cloneGs(prev);
-      const col = s.columns[ci];
+      const col = prev.columns[ci];
       const ss = seqStart(col); // first index of the movable sequence
+      const inSeq = !!col[cardIdx]?.faceUp && cardIdx >= ss;
 
-      if (s.selected !== null) {
+      if (prev.selected !== null) {
         // Clicking the already-selected card/sub-sequence toggles it off
-        if (s.selected.from === 'col' && s.selected.index === ci && s.selected.cardIndex === cardIdx) {
-          s.selected = null; s.lastMove = null; return s;
+        if (prev.selected.from === 'col' && prev.selected.index === ci && prev.selected.cardIndex === cardIdx) {
+          return selectSource(prev, null);
         }
         // Clicking on the same column: re-select from clicked card (or deselect if not in seq)
-        if (s.selected.from === 'col' && s.selected.index === ci) {
-          if (col[cardIdx]?.faceUp && cardIdx >= ss) {
-            s.selected = { from: 'col', index: ci, cardIndex: cardIdx }; s.lastMove = null; return s;
-          }
-          s.selected = null; s.lastMove = null; return s;
+        if (prev.selected.from === 'col' && prev.selected.index === ci) {
+          return selectSource(prev, inSeq ? { from: 'col', index: ci, cardIndex: cardIdx } : null);
         }
         // Clicking on a different column: try to place
-        const card = getSelectedCard(s);
-        if (card && canPlaceOnColumn(card, col)) {
-          const moved = removeSelectedCards(s);
-          col.push(...moved);
-          s.selected = null; s.moves++;
-          s.lastMove = { type: 'col', index: ci };
-          return s;
-        }
+        const placed = playMove(prev, { type: 'toColumn', from: prev.selected, to: ci });
+        if (placed) return placed;
         // Placement failed: select from clicked card instead (if in seq)
-        if (col[cardIdx]?.faceUp && cardIdx >= ss) {
-          s.selected = { from: 'col', index: ci, cardIndex: cardIdx }; s.lastMove = null; return s;
-        }
-        s.selected = null; s.lastMove = null; return s;
+        return inSeq ? selectSource(prev, { from: 'col', index: ci, cardIndex: cardIdx }) : rejectMove(prev);
       }
       // No current selection: select from clicked card (only if in the seq)
-      if (!col[cardIdx]?.faceUp || cardIdx < ss) return prev;
-      s.selected = { from: 'col', index: ci, cardIndex: cardIdx }; s.lastMove = null;
-      return s;
+      if (!inSeq) return prev;
+      return selectSource(prev, { from: 'col', index: ci, cardIndex: cardIdx });
     });
   }, []);
 
   const clickColumn = useCallback((ci: number) => {
     setGs(prev => {
       if (!prev || prev.gameOver) return prev;
-      const s = cloneGs(prev);
-      const col = s.columns[ci];
-      if (s.selected !== null && col.length === 0) {
-        const card = getSelectedCard(s);
-        if (card && canPlaceOnColumn(card, col)) {
-          const moved = removeSelectedCards(s);
-          col.push(...moved);
-          s.selected = null; s.moves++;
-          s.lastMove = { type: 'col', index: ci };
-          return s;
-        }
-        s.selected = null; s.lastMove = null; return s;
+      if (prev.selected !== null && prev.columns[ci].length === 0) {
+        return playMove(prev, { type: 'toColumn', from: prev.selected, to: ci })
+          ?? rejectMove(prev);
       }
       return prev;
     });
@@ -853,272 +1426,356 @@ export default function Page() {
   const clickFoundation = useCallback((fi: number) => {
     setGs(prev => {
       if (!prev || prev.gameOver) return prev;
-      const s = cloneGs(prev);
 
       // No selection: select the top card of this foundation
-      if (s.selected === null) {
-        if (s.foundations[fi].length === 0) return prev;
-        s.selected = { from: 'fdn', index: fi };
-        s.lastMove = null;
-        return s;
+      if (prev.selected === null) {
+        if (prev.foundations[fi].length === 0) return prev;
+        return selectSource(prev, { from: 'fdn', index: fi });
       }
 
       // Toggle: clicking the same foundation deselects
-      if (s.selected.from === 'fdn' && s.selected.index === fi) {
-        s.selected = null; s.lastMove = null; return s;
+      if (prev.selected.from === 'fdn' && prev.selected.index === fi) {
+        return selectSource(prev, null);
       }
 
       // Try to place selected card(s) on this foundation
-      if (s.selected?.from === 'col') {
-        const col = s.columns[s.selected.index];
-        // For trump foundations: try to move a sequence of trumps
-        const seqCards = findSequenceForFoundation(col, fi, s.foundations, s.trumpsMerged);
-        if (seqCards.length > 0) {
-          // Remove matched cards from column (they are at the bottom of the movable seq)
-          for (const sc of seqCards) {
-            const idx = col.findIndex(c => c.id === sc.id);
-            if (idx >= 0) col.splice(idx, 1);
-          }
-          revealBottom(col);
-          s.foundations[fi].push(...seqCards);
-          s.selected = null; s.moves++;
-          s.lastMove = { type: 'fdn', index: fi };
-          if (isWin(s)) s.gameOver = true;
-          return s;
-        }
-        s.selected = null; return s;
-      }
-      // From excuse or foundation
-      const card = getSelectedCard(s);
-      if (!card || !canPlaceOnFoundation(card, fi, s.foundations, s.trumpsMerged)) {
-        s.selected = null; return s;
-      }
-      removeSelectedCards(s);
-      s.foundations[fi].push(card);
-      s.selected = null; s.moves++;
-      s.lastMove = { type: 'fdn', index: fi };
-      if (isWin(s)) s.gameOver = true;
-      return s;
+      return playMove(prev, { type: 'toFoundation', from: prev.selected, to: fi })
+        ?? rejectMove(prev);
     });
   }, []);
 
   const clickExcuseSlot = useCallback(() => {
     setGs(prev => {
       if (!prev || prev.gameOver) return prev;
-      const s = cloneGs(prev);
-      if (s.selected !== null) {
-        if (s.selected.from === 'excuse') { s.selected = null; return s; }
+      if (prev.selected !== null) {
         // If selected from a column, try to extract the excuse from within the sequence
-        if (s.selected.from === 'col' && s.excuseSlot === null) {
-          const col = s.columns[s.selected.index];
-          const ss = seqStart(col);
-          // Find an excuse card in the movable sequence
-          const excIdx = col.findIndex((c, i) => i >= ss && c.kind === 'excuse' && c.faceUp);
-          if (excIdx >= 0) {
-            const excCard = col[excIdx];
-            col.splice(excIdx, 1);
-            revealBottom(col);
-            excCard.faceUp = true;
-            s.excuseSlot = excCard;
-            s.selected = null; s.moves++;
-            s.lastMove = { type: 'excuse' };
-            return s;
-          }
+        if (prev.selected.from === 'col') {
+          return playMove(prev, { type: 'storeExcuse', from: prev.selected.index }) ?? rejectMove(prev);
         }
-        const card = getSelectedCard(s);
-        if (card && card.kind === 'excuse' && s.excuseSlot === null) {
-          removeSelectedCards(s);
-          card.faceUp = true;
-          s.excuseSlot = card;
-          s.selected = null; s.moves++;
-          s.lastMove = { type: 'excuse' };
-          return s;
-        }
-        s.selected = null; return s;
+        return selectSource(prev, null);
       }
-      if (s.excuseSlot) { s.selected = { from: 'excuse' }; s.lastMove = null; return s; }
+      if (prev.excuseSlot) return selectSource(prev, { from: 'excuse' });
       return prev;
     });
   }, []);
 
   const mergeTrumps = useCallback(() => {
     setGs(prev => {
-      if (!prev || prev.gameOver || !canMergeTrumps(prev)) return prev;
-      const s = cloneGs(prev);
-      const descReversed = [...s.foundations[5]].reverse();
-      s.foundations[4] = [...s.foundations[4], ...descReversed];
-      s.foundations[5] = [];
-      s.trumpsMerged = true;
-      s.moves++;
-      s.lastMove = { type: 'fdn', index: 4 };
-      if (isWin(s)) s.gameOver = true;
-      return s;
+      if (!prev || prev.gameOver) return prev;
+      return playMove(prev, { type: 'mergeTrumps' }) ?? prev;
     });
   }, []);
 
   const autoPlace = useCallback((ci: number) => {
     setGs(prev => {
       if (!prev || prev.gameOver) return prev;
-      const s = cloneGs(prev);
-      const col = s.columns[ci];
-      const card = col.length > 0 ? col[col.length - 1] : null;
-      if (!card) return prev;
-      if (card.kind === 'excuse' && s.excuseSlot === null) {
-        col.pop(); revealBottom(col);
-        card.faceUp = true;
-        s.excuseSlot = card;
-        s.selected = null; s.moves++;
-        s.lastMove = { type: 'excuse' };
-        return s;
-      }
-      // Try trump foundations with sequence support first
-      for (const fi of [4, 5]) {
-        const seqCards = findSequenceForFoundation(col, fi, s.foundations, s.trumpsMerged);
-        if (seqCards.length > 0) {
-          for (const sc of seqCards) {
-            const idx = col.findIndex(c => c.id === sc.id);
-            if (idx >= 0) col.splice(idx, 1);
-          }
-          revealBottom(col);
-          s.foundations[fi].push(...seqCards);
-          s.selected = null; s.moves++;
-          s.lastMove = { type: 'fdn', index: fi };
-          if (isWin(s)) s.gameOver = true;
-          return s;
-        }
-      }
-      // Try suit foundations (single card)
-      const fi = findFoundation(card, s.foundations, s.trumpsMerged);
-      if (fi === -1) return prev;
-      col.pop(); revealBottom(col);
-      s.foundations[fi].push(card);
-      s.selected = null; s.moves++;
-      s.lastMove = { type: 'fdn', index: fi };
-      if (isWin(s)) s.gameOver = true;
-      return s;
+      const move = findAutoMove(prev, ci);
+      return move ? playMove(prev, move) ?? prev : prev;
     });
   }, []);
 
-  // ─── Cheat: Peek (reveal hidden cards in a column for 5s) ──────
-  const activatePeekCheat = useCallback(() => {
+  // ─── Cheats ────────────────────────────────────────────────────
+  // Each step of a cheat's run (see CheatRun) is a plain state update; the
+  // timers below end the animation and the reveals.
+  const activateCheat = useCallback((cheat: Cheat) => {
     setGs(prev => {
-      if (!prev || prev.gameOver || prev.cheat.peekUsed) return prev;
+      if (!prev || prev.gameOver || prev.cheat.run || !cheatUsable(prev, cheat)) return prev;
       const s = cloneGs(prev);
-      s.cheat.peekUsed = true;
-      s.cheat.activeCheat = 'peek';
+      s.cheat.uses[cheat.id] = (s.cheat.uses[cheat.id] ?? 0) + 1;
+      s.cheat.run = { id: cheat.id, phase: 'animation' };
       s.selected = null;
       return s;
     });
   }, []);
 
-  // State for peek mode: waiting for column selection, then revealing
-  const [peekMode, setPeekMode] = useState(false);
-  const [peekCol, setPeekCol] = useState<number | null>(null);
-
-  const selectPeekColumn = useCallback((ci: number) => {
-    if (!peekMode || peekCol !== null) return;
-    if (!gs || gs.columns[ci].length === 0) return;
-    // Check if column has hidden cards
-    const hasHidden = gs.columns[ci].some(c => !c.faceUp);
-    if (!hasHidden) return;
-    setPeekCol(ci);
-    setPeekMode(false);
-    // Auto-hide after 5 seconds
-    setTimeout(() => {
-      setPeekCol(null);
-    }, 5000);
-  }, [peekMode, peekCol, gs]);
-
-  // After peek animation ends, enter peek column selection mode
-  useEffect(() => {
-    if (!gs?.cheat.activeCheat) return;
-    if (gs.cheat.activeCheat === 'peek') {
-      const t = setTimeout(() => {
-        setGs(prev => {
-          if (!prev) return prev;
-          const s = cloneGs(prev);
-          s.cheat.activeCheat = null;
-          return s;
-        });
-        setPeekMode(true);
-      }, 1800);
-      return () => clearTimeout(t);
-    }
-    if (gs.cheat.activeCheat === 'slowDist') {
-      const t = setTimeout(() => {
-        setGs(prev => {
-          if (!prev) return prev;
-          const s = cloneGs(prev);
-          s.cheat.activeCheat = null;
-          // Enter slow distribution mode
-          const eligible: number[] = [];
-          for (let i = 0; i < 11; i++) {
-            if (!hasVisibleKing(s.columns[i])) {
-              eligible.push(i);
-            }
-          }
-          s.cheat.slowDistMode = true;
-          s.cheat.slowDistEligible = eligible;
-          s.selected = null;
-          return s;
-        });
-      }, 1800);
-      return () => clearTimeout(t);
-    }
-  }, [gs?.cheat.activeCheat]);
-
-  // ─── Cheat: Slow Distribution (card-by-card) ──────────────────
-  const activateSlowDistCheat = useCallback(() => {
+  const setCheatRun = useCallback((update: (prev: PlayState, cheat: Cheat) => CheatRun | null) => {
     setGs(prev => {
-      if (!prev || prev.gameOver || prev.cheat.slowDistUsed || prev.stock.length === 0) return prev;
+      const cheat = prev?.cheat.run && findCheat(prev.cheat.run.id);
+      if (!prev || !cheat) return prev;
       const s = cloneGs(prev);
-      s.cheat.slowDistUsed = true;
-      s.cheat.activeCheat = 'slowDist';
-      s.selected = null;
+      s.cheat.run = update(prev, cheat);
       return s;
     });
   }, []);
 
-  const slowDistNext = useCallback(() => {
-    setGs(prev => {
-      if (!prev || !prev.cheat.slowDistMode || prev.stock.length === 0) return prev;
-      const s = cloneGs(prev);
-      if (s.cheat.slowDistEligible.length === 0) {
-        // No more eligible columns, end
-        s.cheat.slowDistMode = false;
-        return s;
-      }
-      const colIdx = s.cheat.slowDistEligible.shift()!;
-      const card = s.stock.pop()!;
-      card.faceUp = true;
-      s.columns[colIdx].push(card);
-      s.lastMove = { type: 'col', index: colIdx };
-      if (s.stock.length === 0 || s.cheat.slowDistEligible.length === 0) {
-        s.cheat.slowDistMode = false;
-      }
-      return s;
-    });
-  }, []);
+  const pickCheatTarget = useCallback((ci: number) => {
+    setCheatRun((prev, cheat) => prev.cheat.run?.phase === 'target' && cheat.target?.accepts(prev, ci)
+      ? cheatEffectRun(cheat, prev, ci)
+      : prev.cheat.run);
+  }, [setCheatRun]);
+
+  const stopCheat = useCallback(() => setCheatRun(() => null), [setCheatRun]);
 
-  const slowDistStop = useCallback(() => {
+  const runId = gs?.cheat.run?.id;
+  const runPhase = gs?.cheat.run?.phase;
+  const revealMs = gs?.cheat.run?.phase === 'reveal' ? gs.cheat.run.ms : null;
+
+  useEffect(() => {
+    const cheat = runId ? findCheat(runId) : null;
+    if (!cheat || (runPhase !== 'animation' && runPhase !== 'reveal')) return;
+    const t = setTimeout(() => {
+      setCheatRun((prev, c) => {
+        if (prev.cheat.run?.phase !== 'animation') return null;
+        return c.target ? { id: c.id, phase: 'target' } : cheatEffectRun(c, prev, null);
+      });
+    }, runPhase === 'animation' ? cheat.animationMs : revealMs ?? 0);
+    return () => clearTimeout(t);
+  }, [runId, runPhase, revealMs, setCheatRun]);
+
+  const nextCheatStep = useCallback(() => {
     setGs(prev => {
-      if (!prev) return prev;
-      const s = cloneGs(prev);
-      s.cheat.slowDistMode = false;
-      s.cheat.slowDistEligible = [];
+      const run = prev?.cheat.run;
+      if (!prev || run?.phase !== 'steps') return prev;
+      const [action, ...rest] = run.actions;
+      const played = playMove(prev, action);
+      const s = cloneGs(played ?? prev);
+      s.cheat.run = played && rest.length > 0 ? { ...run, actions: rest } : null;
       return s;
     });
   }, []);
 
-  // ─── Touch handlers for swipe-to-select ────────────────────────
-  const handleTouchStart = useCallback((e: React.TouchEvent) => {
-    const touch = e.touches[0];
-    touchStartRef.current = { x: touch.clientX, y: touch.clientY, time: Date.now() };
-  }, []);
+  // ─── Automatic finish ──────────────────────────────────────────
+  // Offered once the rest of the game plays itself. The moves are then played
+  // one at a time so that each card can be seen landing, and the board can't
+  // be touched until the victory.
+  const canFinish = useMemo(() => !!live && !replay && finishingMoves(live) !== null, [live, replay]);
 
-  const handleTouchEnd = useCallback((ci: number, cardIdx: number, isLast: boolean, e: React.TouchEvent) => {
-    if (!touchStartRef.current) return;
-    // If we were dragging, don't process as swipe
+  const finishGame = useCallback(() => {
+    if (live) setFinishQueue(finishingMoves(live));
+  }, [live]);
+
+  useEffect(() => {
+    if (!finishQueue) return;
+    if (finishQueue.length === 0) { setFinishQueue(null); return; }
+    const t = setTimeout(() => {
+      const [move, ...rest] = finishQueue;
+      setGs(prev => prev ? playMove(prev, move) ?? prev : prev);
+      setFinishQueue(rest);
+    }, FINISH_STEP_MS);
+    return () => clearTimeout(t);
+  }, [finishQueue]);
+
+  const boardLocked = replay !== null || finishQueue !== null || dealSearch !== null;
+
+  // ─── Automatic collection ──────────────────────────────────────
+  // With the setting on, safe cards go home by themselves shortly after each
+  // action, one at a time. They count as moves but share the undo entry of
+  // the action that led to them. Nothing happens while the player is holding
+  // a card or a cheat is running.
+  const collectPaused = !live || live.gameOver || boardLocked || live.selected !== null || drag !== null
+    || live.cheat.run !== null;
+
+  useEffect(() => {
+    if (!settings.autoCollect || collectPaused || !live || !safeFoundationMove(live)) return;
+    const t = setTimeout(() => setGs({ type: 'amend', update: collectSafeCard }), AUTO_COLLECT_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [settings.autoCollect, collectPaused, live]);
+
+  // ─── Undo / redo ───────────────────────────────────────────────
+  // Disabled while a cheat is running or once the game is won.
+  const historyLocked = !gs || gs.gameOver || boardLocked || gs.cheat.run !== null;
+  const canUndo = !historyLocked && (session?.past.length ?? 0) > 0;
+  const canRedo = !historyLocked && (session?.future.length ?? 0) > 0;
+
+  const undo = useCallback(() => {
+    if (!canUndo) return;
+    setGs({ type: 'undo' });
+  }, [canUndo]);
+
+  const redo = useCallback(() => {
+    if (!canRedo) return;
+    setGs({ type: 'redo' });
+  }, [canRedo]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave the text fields their own undo
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  // ─── Keyboard control ──────────────────────────────────────────
+  // The arrow keys bring up a cursor over the board and Enter or Space act
+  // like a click on what it's on. D distributes, F sends the cursor's column
+  // to the foundations, M merges the trumps and Esc drops the selection.
+  // Using the mouse or a finger hides the cursor again.
+  const [cursor, setCursor] = useState<BoardCursor | null>(null);
+  const boardCursor = gs && cursor ? clampCursor(gs, cursor) : null;
+  // The board doesn't take keys while a panel covers it
+  const panelOpen = showStats || showSettings || showDaily || showProfiles;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!gs || boardLocked || panelOpen || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      if (target?.closest('input, textarea, select')) return;
+
+      if (e.key.startsWith('Arrow')) {
+        e.preventDefault();
+        setCursor(boardCursor ? moveCursor(gs, boardCursor, e.key) : bottomCard(gs, 0));
+        return;
+      }
+      if (e.key === 'Enter' || e.key === ' ') {
+        // A focused button keeps its own Enter and Space
+        if (!boardCursor || target?.closest('button')) return;
+        e.preventDefault();
+        if (boardCursor.pile === 'excuse') clickExcuseSlot();
+        else if (boardCursor.pile === 'fdn') clickFoundation(boardCursor.index);
+        else if (gs.cheat.run?.phase === 'target') pickCheatTarget(boardCursor.index);
+        else if (gs.columns[boardCursor.index].length === 0) clickColumn(boardCursor.index);
+        else clickCard(boardCursor.index, boardCursor.cardIndex);
+        return;
+      }
+      switch (e.key.toLowerCase()) {
+        case 'd': distribute(); break;
+        case 'f': if (boardCursor?.pile === 'col') autoPlace(boardCursor.index); break;
+        case 'm': mergeTrumps(); break;
+        case 'escape':
+          if (gs.cheat.run?.phase === 'target') stopCheat();
+          else setGs(prev => prev?.selected ? selectSource(prev, null) : prev);
+          break;
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gs, boardLocked, panelOpen, boardCursor, clickCard, clickColumn, clickFoundation, clickExcuseSlot,
+    distribute, autoPlace, mergeTrumps, pickCheatTarget, stopCheat]);
+
+  useEffect(() => {
+    const hideCursor = () => setCursor(null);
+    window.addEventListener('pointerdown', hideCursor);
+    return () => window.removeEventListener('pointerdown', hideCursor);
+  }, []);
+
+  // ─── Screen reader announcements ───────────────────────────────
+  // What each change to the live game did, read out through a polite live
+  // region: the action played (redone or automatic ones included), an undo,
+  // or a new deal. A message equal to the previous one gets a trailing
+  // no-break space so that it's read again.
+  const [announcement, setAnnouncement] = useState('');
+  const announcedRef = useRef<PlayState | null>(null);
+  useEffect(() => {
+    const prev = announcedRef.current;
+    announcedRef.current = live;
+    if (!live || !prev || live.log === prev.log) return;
+    const played = live.log.length === prev.log.length + 1 && live.log[prev.log.length - 1] === prev.log.at(-1);
+    const text = live.undosUsed > prev.undosUsed ? t.speech.undone
+      : played ? `${live.lastMove?.type === 'fdn' && live.lastMove.auto ? t.speech.automatic : ''}${describeAction(prev, live.log.at(-1)!, live, t)}`
+      : t.speech.newDeal(live.seed);
+    setAnnouncement(a => a === text ? `${text}\u00a0` : text);
+  }, [live, t]);
+
+  // ─── Solver (runs in a worker on the current position) ─────────
+  const [analysis, setAnalysis] = useState<{ key: string; result: SolveResult | null } | null>(null);
+  const solverRef = useRef<Worker | null>(null);
+
+  const analyse = useCallback(() => {
+    if (!gs || gs.gameOver) return;
+    const key = positionKey(gs);
+    solverRef.current?.terminate();
+    const worker = new Worker(new URL('../lib/solver.worker.ts', import.meta.url));
+    solverRef.current = worker;
+    setAnalysis({ key, result: null });
+    worker.onmessage = (e: MessageEvent<SolveResponse>) => {
+      setAnalysis(prev => prev?.key === key ? { key, result: e.data } : prev);
+      worker.terminate();
+      if (solverRef.current === worker) solverRef.current = null;
+    };
+    const request: SolveRequest = { state: gs, options: { maxMillis: 10_000 } };
+    worker.postMessage(request);
+  }, [gs]);
+
+  useEffect(() => () => solverRef.current?.terminate(), []);
+
+  // ─── Hints (repeated presses cycle through the suggestions) ────
+  const [hint, setHint] = useState<{ key: string; index: number; move: Move | null } | null>(null);
+
+  const showHint = useCallback(() => {
+    if (!gs || gs.gameOver) return;
+    const key = positionKey(gs);
+    const moves = hintMoves(gs);
+    if (moves.length === 0) { setHint({ key, index: -1, move: null }); return; }
+    const index = hint && hint.key === key ? (hint.index + 1) % moves.length : 0;
+    setHint({ key, index, move: moves[index] });
+    setGs(prev => prev ? { ...prev, hintsUsed: prev.hintsUsed + 1 } : prev);
+  }, [gs, hint]);
+
+  // ─── Blocked game detection ────────────────────────────────────
+  // Checked once per position, after the move has been rendered.
+  const [outlook, setOutlook] = useState<{ key: string; value: Outlook } | null>(null);
+
+  useEffect(() => {
+    if (!live || live.gameOver) return;
+    const key = positionKey(live);
+    if (outlook?.key === key) return;
+    const t = setTimeout(() => setOutlook({ key, value: positionOutlook(live) }), 50);
+    return () => clearTimeout(t);
+  }, [live, outlook]);
+
+  // ─── Replay ────────────────────────────────────────────────────
+  // Available once something has been played and no cheat is running. Manual
+  // steps pause the playback.
+  const canReplay = !!live && live.log.length > 0 && !live.cheat.run;
+
+  const startReplay = useCallback(() => {
+    if (!live || !canReplay) return;
+    setHint(null);
+    setReplay({ frames: replayFrames(live), step: 0, playing: true, speed: 1, forward: true });
+  }, [live, canReplay]);
+
+  const replayTo = useCallback((step: number) => {
+    setReplay(r => {
+      if (!r) return r;
+      const next = Math.max(0, Math.min(step, r.frames.length - 1));
+      return { ...r, step: next, playing: false, forward: next > r.step };
+    });
+  }, []);
+
+  const toggleReplayPlay = useCallback(() => {
+    setReplay(r => {
+      if (!r) return r;
+      if (r.playing) return { ...r, playing: false };
+      // Playing from the end starts over
+      return r.step >= r.frames.length - 1 ? { ...r, step: 0, playing: true, forward: true } : { ...r, playing: true };
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!replay?.playing) return;
+    if (replay.step >= replay.frames.length - 1) {
+      setReplay(r => r && { ...r, playing: false });
+      return;
+    }
+    const t = setTimeout(() => {
+      setReplay(r => r && { ...r, step: r.step + 1, forward: true });
+    }, REPLAY_STEP_MS / replay.speed);
+    return () => clearTimeout(t);
+  }, [replay]);
+
+  // Branch off: the frame becomes the game in progress. Like any action this
+  // can be undone, back to the position the replay was started from.
+  const resumeReplay = useCallback(() => {
+    if (!replay) return;
+    const frame = replay.frames[replay.step];
+    setGs(prev => prev ? restoreSnapshot(frame, prev) : prev);
+    setReplay(null);
+  }, [replay]);
+
+  // ─── Touch handlers for swipe-to-select ────────────────────────
+  const handleTouchStart = useCallback((e: React.TouchEvent) => {
+    const touch = e.touches[0];
+    touchStartRef.current = { x: touch.clientX, y: touch.clientY, time: Date.now() };
+  }, []);
+
+  const handleTouchEnd = useCallback((ci: number, cardIdx: number, isLast: boolean, e: React.TouchEvent) => {
+    if (!touchStartRef.current) return;
+    // If we were dragging, don't process as swipe
     if (dragRef.current?.dragging) return;
     const touch = e.changedTouches[0];
     const dx = touch.clientX - touchStartRef.current.x;
@@ -1195,95 +1852,22 @@ export default function Page() {
     }
     if (!target) return;
     const dt = target.dataset.dropTarget!;
+    const d = dragRef.current!;
+    let move: Move | null = null;
     if (dt.startsWith('col-')) {
-      const ci = parseInt(dt.slice(4));
-      // Try place on column
-      const d = dragRef.current!;
-      setGs(prev => {
-        if (!prev) return prev;
-        const s = cloneGs(prev);
-        s.selected = d.from;
-        const card = getSelectedCard(s);
-        if (card && canPlaceOnColumn(card, s.columns[ci])) {
-          const moved = removeSelectedCards(s);
-          s.columns[ci].push(...moved);
-          s.selected = null; s.moves++;
-          s.lastMove = { type: 'col', index: ci };
-          return s;
-        }
-        s.selected = null;
-        return s;
-      });
+      move = { type: 'toColumn', from: d.from, to: parseInt(dt.slice(4)) };
     } else if (dt.startsWith('fdn-')) {
-      const fi = parseInt(dt.slice(4));
-      const d = dragRef.current!;
-      setGs(prev => {
-        if (!prev) return prev;
-        const s = cloneGs(prev);
-        s.selected = d.from;
-        // From a column: try to move a sequence of cards
-        if (s.selected?.from === 'col') {
-          const col = s.columns[s.selected.index];
-          const seqCards = findSequenceForFoundation(col, fi, s.foundations, s.trumpsMerged);
-          if (seqCards.length > 0) {
-            for (const sc of seqCards) {
-              const idx = col.findIndex(c => c.id === sc.id);
-              if (idx >= 0) col.splice(idx, 1);
-            }
-            revealBottom(col);
-            s.foundations[fi].push(...seqCards);
-            s.selected = null; s.moves++;
-            s.lastMove = { type: 'fdn', index: fi };
-            if (isWin(s)) s.gameOver = true;
-            return s;
-          }
-          s.selected = null; return s;
-        }
-        const card = getSelectedCard(s);
-        if (!card || !canPlaceOnFoundation(card, fi, s.foundations, s.trumpsMerged)) {
-          s.selected = null; return s;
-        }
-        removeSelectedCards(s);
-        s.foundations[fi].push(card);
-        s.selected = null; s.moves++;
-        s.lastMove = { type: 'fdn', index: fi };
-        if (isWin(s)) s.gameOver = true;
-        return s;
-      });
-    } else if (dt === 'excuse') {
-      const d = dragRef.current!;
-      setGs(prev => {
-        if (!prev) return prev;
-        const s = cloneGs(prev);
-        s.selected = d.from;
-        // If dragging from a column, try to extract excuse from the sequence
-        if (s.selected?.from === 'col' && s.excuseSlot === null) {
-          const col = s.columns[s.selected.index];
-          const ss = seqStart(col);
-          const excIdx = col.findIndex((c, i) => i >= ss && c.kind === 'excuse' && c.faceUp);
-          if (excIdx >= 0) {
-            const excCard = col[excIdx];
-            col.splice(excIdx, 1);
-            revealBottom(col);
-            excCard.faceUp = true;
-            s.excuseSlot = excCard;
-            s.selected = null; s.moves++;
-            s.lastMove = { type: 'excuse' };
-            return s;
-          }
-        }
-        const card = getSelectedCard(s);
-        if (card && card.kind === 'excuse' && s.excuseSlot === null) {
-          removeSelectedCards(s);
-          card.faceUp = true;
-          s.excuseSlot = card;
-          s.selected = null; s.moves++;
-          s.lastMove = { type: 'excuse' };
-          return s;
-        }
-        s.selected = null; return s;
-      });
+      move = { type: 'toFoundation', from: d.from, to: parseInt(dt.slice(4)) };
+    } else if (dt === 'excuse' && d.from.from === 'col') {
+      // Dragging from a column extracts the excuse from the sequence
+      move = { type: 'storeExcuse', from: d.from.index };
     }
+    // Dropped back where it came from: nothing was tried
+    const home = d.from.from === 'excuse' ? dt === 'excuse' : dt === `${d.from.from}-${d.from.index}`;
+    setGs(prev => {
+      if (!prev) return prev;
+      return (move && playMove(prev, move)) ?? (home ? selectSource(prev, null) : rejectMove(prev));
+    });
   }, [gs]);
 
   const wasDraggingRef = useRef(false);
@@ -1301,692 +1885,1131 @@ export default function Page() {
     setDrag(null);
   }, [dropOnTarget]);
 
+  // ─── Sounds and vibrations ─────────────────────────────────────
+  // Like the announcements, they follow the changes to the live game, so
+  // that a move sounds the same whether it was clicked, dragged, typed,
+  // redone or played automatically. Picking cards up is heard as the
+  // selection is made, or as a drag sets off.
+  const soundedRef = useRef<PlayState | null>(null);
+  useEffect(() => {
+    const prev = soundedRef.current;
+    soundedRef.current = live;
+    if (!live || !prev || live === prev || live.seed !== prev.seed) return;
+    const name = soundFor(prev, live);
+    if (name) playSound(name, sound);
+  }, [live, sound]);
+
+  const dragging = !!drag?.dragging;
+  useEffect(() => { if (dragging) playSound('pickup', sound); }, [dragging, sound]);
+
+  // ─── Card travel ───────────────────────────────────────────────
+  // Cards that change pile slide there from where they were. The board is
+  // already in its new state, so nothing waits for them: cards in motion can
+  // be played straight away. Cards that end up hidden (under a foundation's
+  // top card, back in the stock) travel as copies, cleared once all have
+  // landed. Cards dropped after a drag were carried there by hand.
+  const [ghosts, setGhosts] = useState<Ghost[]>([]);
+  const travelRef = useRef<{ seed: number; places: Map<string, Place>; cards: Map<string, Point>; piles: Map<string, Point> } | null>(null);
+  const travellingRef = useRef<Animation[]>([]);
+
+  useBrowserLayoutEffect(() => {
+    if (!gs) return;
+    const places = cardPlaces(gs);
+    const prev = travelRef.current;
+    if (prev && prev.seed === gs.seed && samePlaces(prev.places, places)) return;
+    // Cards still on their way are put down first, so that they're measured where they belong
+    for (const a of travellingRef.current) a.finish();
+    travellingRef.current = [];
+    const cards = measure('data-card-id');
+    const piles = measure('data-pile');
+    travelRef.current = { seed: gs.seed, places, cards, piles };
+    if (!prev || prev.seed !== gs.seed || wasDraggingRef.current) return;
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) return;
+    const trips = cardTrips(prev.places, places);
+    if (trips.length === 0 || trips.length > MAX_TRIPS) return;
+
+    const next: Ghost[] = [];
+    for (const trip of trips) {
+      const from = prev.cards.get(trip.cardId) ?? prev.piles.get(trip.from.pile);
+      const el = document.querySelector<HTMLElement>(`[data-card-id="${trip.cardId}"]`);
+      const to = el ? cards.get(trip.cardId) : piles.get(trip.to.pile);
+      if (!from || !to) continue;
+      const dx = from.x - to.x;
+      const dy = from.y - to.y;
+      const delay = trip.order * TRAVEL_STAGGER_MS;
+      if (!el) {
+        const landing = { x: to.x - window.scrollX, y: to.y - window.scrollY };
+        next.push({ key: trip.cardId, card: cardAt(gs, trip.to), to: landing, dx, dy, delay });
+        continue;
+      }
+      travellingRef.current.push(el.animate([
+        { transform: `translate(${dx}px, ${dy}px)`, zIndex: 100 },
+        { transform: 'translate(0, 0)', zIndex: 100 },
+      ], { duration: TRAVEL_MS, delay, easing: 'cubic-bezier(0.2, 0.7, 0.3, 1)', fill: 'backwards' }));
+    }
+    // Later arrivals are drawn on top of the earlier ones
+    setGhosts(next.sort((a, b) => a.delay - b.delay));
+  }, [gs]);
+
+  useEffect(() => {
+    if (ghosts.length === 0) return;
+    const last = Math.max(...ghosts.map(g => g.delay));
+    const timer = setTimeout(() => setGhosts([]), last + TRAVEL_MS + TRAVEL_STAGGER_MS);
+    return () => clearTimeout(timer);
+  }, [ghosts]);
+
   // ═══════════════════════════════════════════════════════════════
   // Render
   // ═══════════════════════════════════════════════════════════════
 
+  const searchLabel = dealSearch && t.difficulty(dealSearch.difficulty).name.toLowerCase();
+
+  // Also shown instead of the board when there's no game to go back to
+  const searchFailure = failedSearch && (
+    <div role="alert" className="flex items-center flex-wrap justify-center" style={{
+      gap: '8px', padding: '6px 8px 6px 14px', borderRadius: '999px',
+      background: 'rgba(17,24,39,0.95)', border: '1px solid rgba(245,158,11,0.4)',
+      boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+      fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontSize: '13px', color: '#fcd34d',
+    }}>
+      {t.searchFailed(t.difficulty(failedSearch.difficulty).name.toLowerCase())}
+      {[
+        { label: t.retry, onClick: () => setDealSearch(failedSearch) },
+        { label: t.normalDeal, onClick: () => startGame(newGameState(randomSeed(), failedSearch.variant)) },
+        ...(gs ? [{ label: t.cancel, onClick: () => setFailedSearch(null) }] : []),
+      ].map(b => (
+        <button key={b.label} onClick={b.onClick} style={{
+          padding: '3px 10px', borderRadius: '999px', cursor: 'pointer',
+          background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.75)',
+          border: '1px solid rgba(255,255,255,0.15)', fontFamily: 'inherit', fontSize: '12px',
+        }}>{b.label}</button>
+      ))}
+    </div>
+  );
+
   if (!mounted || !gs) {
     return (
       <div className="min-h-screen flex items-center justify-center"
         style={{ background: 'var(--bg-felt)' }}>
-        <p style={{
-          color: 'rgba(255,255,255,0.4)',
-          fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-          fontSize: '16px', fontWeight: 500,
-        }}>
-          Distribution des cartes...
-        </p>
+        {mounted && searchFailure ? searchFailure : (
+          <p style={{
+            color: 'var(--felt-dim)',
+            fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+            fontSize: '16px', fontWeight: 500,
+          }}>
+            {dealSearch ? t.searching(searchLabel!) : t.loading}
+          </p>
+        )}
       </div>
     );
   }
 
   const total = countAllPlaced(gs);
+  const cheatRun = gs.cheat.run;
+  const runCheat = cheatRun && findCheat(cheatRun.id);
+  const targetCheat = cheatRun?.phase === 'target' ? runCheat : null;
+  const revealed = new Set(cheatRun?.phase === 'reveal' ? cheatRun.cardIds : []);
+  const runText = runCheat && t.cheat(runCheat);
+  const cheatLabels = CHEATS.map(c => ({ id: c.id, name: t.cheat(c).name }));
   const lm = gs.lastMove;
   const showMerge = canMergeTrumps(gs);
   const progress = Math.round((total / 78) * 100);
+  // The clock keeps running between moves; the states only hold the time
+  // each was reached at.
+  const elapsedMs = session?.elapsedMs ?? gs.elapsedMs;
+  const score = scoreOf({ ...gs, elapsedMs });
+  const scoreDetail = [
+    `${t.score.cards} : ${score.cards}`,
+    `${t.score.merge} : ${score.merge}`,
+    `${t.score.excuse} : ${score.excuse}`,
+    `${t.score.timeBonus} : ${score.timeBonus}`,
+    `${t.score.penalties} : −${score.penalties}`,
+  ].join('\n');
+  const posKey = positionKey(gs);
+  const activeHint = !replay && hint && hint.key === posKey ? hint : null;
+  const marks = activeHint?.move ? hintMarks(gs, activeHint.move) : null;
+  const currentOutlook = !replay && outlook?.key === posKey ? outlook.value : 'open';
+  const cardHinted = (c: Card | null | undefined) => !!c && !!marks?.cards.has(c.id);
+  const pileGlow = (pile: string) => marks?.piles.has(pile) ? HINT_GLOW : undefined;
+  const focusedPile = boardCursor ? cursorPile(boardCursor) : null;
+  const pileStyle = (pile: string): React.CSSProperties => ({
+    ...pileGlow(pile),
+    ...(focusedPile === pile ? FOCUS_RING : undefined),
+  });
 
   return (
-    <div
-      id="drag-overlay"
-      className="min-h-screen select-none flex flex-col"
-      style={{ background: 'var(--bg-felt)', touchAction: drag ? 'none' : 'manipulation' }}
-      onClick={() => {
-        if (gs.selected !== null && !dragRef.current?.dragging) setGs(prev => prev ? ({ ...cloneGs(prev), selected: null, lastMove: null }) : prev);
-      }}
-      onPointerMove={handleDragMove}
-      onPointerUp={handleDragEnd}
-    >
-      <div className="mx-auto px-1 py-1 sm:px-3 sm:py-2 md:px-4 flex flex-col flex-1 w-full"
-        style={{ maxWidth: '960px' }} onClick={e => e.stopPropagation()}>
+    <MessagesContext.Provider value={t}>
+      <div
+        id="drag-overlay"
+        className="min-h-screen select-none flex flex-col"
+        style={{ background: 'var(--bg-felt)', touchAction: drag ? 'none' : 'manipulation' }}
+        onClick={() => {
+          if (gs.selected !== null && !dragRef.current?.dragging) setGs(prev => prev ? ({ ...cloneGs(prev), selected: null, lastMove: null }) : prev);
+        }}
+        onPointerMove={handleDragMove}
+        onPointerUp={handleDragEnd}
+      >
+        <div className="mx-auto px-1 py-1 sm:px-3 sm:py-2 md:px-4 flex flex-col flex-1 w-full"
+          style={{ maxWidth: '960px' }} onClick={e => e.stopPropagation()}>
 
-        {/* ─── Header ──────────────────────────────────── */}
-        <div className="flex items-center justify-between mb-1 sm:mb-2" style={{ minHeight: '28px' }}>
-          <h1 style={{
-            fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-            fontSize: 'clamp(13px, 3vw, 22px)',
-            fontWeight: 700, color: '#f8fafc', letterSpacing: '-0.02em', margin: 0,
-          }}>
-            La Reussite
-            <span style={{
-              fontWeight: 400, marginLeft: '4px',
-              color: 'rgba(255,255,255,0.25)', fontSize: 'clamp(9px, 1.8vw, 13px)',
-            }}>Tarot</span>
-          </h1>
-          <div className="flex items-center gap-1 sm:gap-2">
-            <div style={{
-              display: 'flex', alignItems: 'center', gap: '4px',
-              background: 'rgba(255,255,255,0.06)', borderRadius: '999px',
-              padding: '2px 8px', fontSize: 'clamp(8px, 1.6vw, 12px)',
-              color: 'rgba(255,255,255,0.45)',
-              fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 500,
+          <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+          {/* ─── Header ──────────────────────────────────── */}
+          <div className="flex items-center justify-between mb-1 sm:mb-2" style={{ minHeight: '28px' }}>
+            <h1 style={{
+              fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+              fontSize: 'clamp(13px, 3vw, 22px)',
+              fontWeight: 700, color: 'var(--felt-strong)', letterSpacing: '-0.02em', margin: 0,
             }}>
-              <span style={{ color: '#fbbf24', fontWeight: 700 }}>{total}</span>/78
+              La Reussite
+              <span style={{
+                fontWeight: 400, marginLeft: '4px',
+                color: 'var(--felt-dim)', fontSize: 'clamp(9px, 1.8vw, 13px)',
+              }}>Tarot</span>
+            </h1>
+            <div className="flex items-center gap-1 sm:gap-2">
               <div style={{
-                width: '24px', height: '3px', background: 'rgba(255,255,255,0.1)',
-                borderRadius: '2px', overflow: 'hidden',
+                display: 'flex', alignItems: 'center', gap: '4px',
+                background: 'var(--felt-fill)', borderRadius: '999px',
+                padding: '2px 8px', fontSize: 'clamp(8px, 1.6vw, 12px)',
+                color: 'var(--felt-dim)',
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 500,
               }}>
+                <span style={{ color: '#fbbf24', fontWeight: 700 }}>{total}</span>/78
                 <div style={{
-                  width: `${progress}%`, height: '100%',
-                  background: 'linear-gradient(90deg, #f59e0b, #fbbf24)',
-                  borderRadius: '2px', transition: 'width 0.3s ease-out',
-                }} />
+                  width: '24px', height: '3px', background: 'var(--felt-line)',
+                  borderRadius: '2px', overflow: 'hidden',
+                }}>
+                  <div style={{
+                    width: `${progress}%`, height: '100%',
+                    background: 'linear-gradient(90deg, #f59e0b, #fbbf24)',
+                    borderRadius: '2px', transition: 'width 0.3s ease-out',
+                  }} />
+                </div>
               </div>
+              <span style={{
+                fontSize: 'clamp(8px, 1.6vw, 12px)', color: 'var(--felt-dim)',
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+              }}>{gs.moves}</span>
+              <span title={t.header.playTime} style={{
+                fontSize: 'clamp(8px, 1.6vw, 12px)', color: 'var(--felt-dim)',
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                fontVariantNumeric: 'tabular-nums',
+              }}>{formatDuration(elapsedMs)}</span>
+              <span title={scoreDetail} style={{
+                fontSize: 'clamp(8px, 1.6vw, 12px)', color: '#fbbf24',
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 700,
+                fontVariantNumeric: 'tabular-nums',
+              }}>{t.score.short(score.total)}</span>
+              <span title={t.header.deal(gs.seed)} style={{
+                fontSize: 'clamp(8px, 1.6vw, 12px)', color: 'var(--felt-dim)',
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                fontVariantNumeric: 'tabular-nums',
+              }}>#{gs.seed}</span>
+              {gs.variant.id !== CLASSIC.id && (
+                <span title={t.variant(gs.variant).description} style={{
+                  fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '1px 6px', borderRadius: '6px',
+                  background: 'var(--felt-fill)', color: 'var(--felt-text)',
+                  border: '1px solid var(--felt-line)',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 700,
+                }}>{t.variant(gs.variant).name}</span>
+              )}
+              {gs.daily && (
+                <span title={t.header.dailyOf(gs.daily.player)} style={{
+                  fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '1px 6px', borderRadius: '6px',
+                  background: 'rgba(217,119,6,0.2)', color: '#fbbf24',
+                  border: '1px solid rgba(245,158,11,0.4)',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 700,
+                }}>📅 {t.header.dailyBadge}</span>
+              )}
+              {[
+                { label: '↶', title: `${t.header.undo} (Ctrl+Z)`, onClick: undo, enabled: canUndo },
+                { label: '↷', title: `${t.header.redo} (Ctrl+Shift+Z)`, onClick: redo, enabled: canRedo },
+                { label: '⟲', title: t.header.replayDeal, onClick: replayDeal, enabled: true },
+                {
+                  label: '🔍', title: t.header.analyse, onClick: analyse,
+                  enabled: !gs.gameOver && !(analysis?.result === null && analysis.key === posKey),
+                },
+                { label: '💡', title: t.header.hint(gs.hintsUsed), onClick: showHint, enabled: !gs.gameOver && !replay },
+                { label: '▶', title: t.header.review, onClick: startReplay, enabled: canReplay && !replay },
+                {
+                  label: '🧲',
+                  title: t.header.autoCollect(settings.autoCollect),
+                  onClick: () => updateSettings({ autoCollect: !settings.autoCollect }),
+                  enabled: true,
+                  active: settings.autoCollect,
+                },
+                {
+                  label: sound.muted ? '🔇' : '🔊',
+                  title: t.header.sound(sound.muted),
+                  onClick: () => updateSound({ muted: !sound.muted }),
+                  enabled: true,
+                },
+                { label: '📅', title: t.header.daily, onClick: () => setShowDaily(true), enabled: true },
+                { label: '📊', title: t.header.stats, onClick: () => setShowStats(true), enabled: true },
+                { label: '⚙', title: t.header.settings, onClick: () => setShowSettings(true), enabled: true },
+                { label: '👥', title: t.header.profiles, onClick: () => setShowProfiles(true), enabled: true },
+              ].map(b => (
+                <button key={b.label} onClick={b.onClick} disabled={!b.enabled} aria-pressed={b.active}
+                  title={b.title} aria-label={b.title.split(' (')[0]} style={{
+                    fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '3px 6px',
+                    background: b.active ? 'rgba(20,184,166,0.25)' : 'var(--felt-fill)',
+                    color: 'var(--felt-text)',
+                    border: `1px solid ${b.active ? 'rgba(20,184,166,0.6)' : 'var(--felt-line)'}`, borderRadius: '6px',
+                    cursor: b.enabled ? 'pointer' : 'default', opacity: b.enabled ? 1 : 0.35,
+                    fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 700,
+                  }}>{b.label}</button>
+              ))}
+              <select value={profileId} onChange={e => switchProfile(e.target.value)}
+                title={t.header.player} aria-label={t.header.player} style={{
+                  fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '2px 4px', maxWidth: '9em',
+                  background: '#1f2937', color: 'rgba(255,255,255,0.75)',
+                  border: '1px solid var(--felt-line)', borderRadius: '6px',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 600,
+                }}>
+                {profiles.list.map(p => <option key={p.id} value={p.id}>{p.avatar} {profileName(p)}</option>)}
+              </select>
+              <button onClick={restart} style={{
+                fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '3px 8px',
+                background: 'var(--felt-fill)', color: 'var(--felt-text)',
+                border: '1px solid var(--felt-line)', borderRadius: '6px',
+                cursor: 'pointer', fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 500,
+              }}>{t.header.newGame}</button>
             </div>
-            <span style={{
-              fontSize: 'clamp(8px, 1.6vw, 12px)', color: 'rgba(255,255,255,0.3)',
-              fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-            }}>{gs.moves}</span>
-            <button onClick={restart} style={{
-              fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '3px 8px',
-              background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.55)',
-              border: '1px solid rgba(255,255,255,0.1)', borderRadius: '6px',
-              cursor: 'pointer', fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 500,
-            }}>Nouvelle</button>
           </div>
-        </div>
 
-        {/* ─── Columns (main area) ─────────────────────── */}
-        <div ref={boardRef} style={{
-          display: 'grid', gridTemplateColumns: 'repeat(11, 1fr)', gap: '1px',
-        }}>
-          {gs.columns.map((col, ci) => {
-            const isPeeking = peekCol === ci;
-            const hasHidden = col.some(c => !c.faceUp);
-            const isPeekTarget = peekMode && col.length > 0 && hasHidden;
-            return (
-            <div key={ci} className="relative" style={{
-                minHeight: colHeight(col),
-                outline: isPeekTarget ? '2px solid rgba(219,39,119,0.7)' : isPeeking ? '2px solid rgba(219,39,119,0.5)' : 'none',
-                borderRadius: '4px',
-                cursor: isPeekTarget ? 'pointer' : undefined,
-              }}
-              data-drop-target={`col-${ci}`}
-              onClick={(e) => {
-                e.stopPropagation();
-                if (peekMode && isPeekTarget) { selectPeekColumn(ci); return; }
-                clickColumn(ci);
-              }}>
-              {col.length === 0 ? (
-                <EmptySlot label="" onClick={() => {}} />
-              ) : (
-                (() => {
-                const ss = seqStart(col);
-                return col.map((card, idx) => {
-                  const isLast = idx === col.length - 1;
-                  const inSeq = idx >= ss;
-                  const isInSelection = gs.selected?.from === 'col'
-                    && gs.selected.index === ci
-                    && idx >= gs.selected.cardIndex;
-                  const isDragSource = drag?.dragging && drag.from.from === 'col'
-                    && drag.from.index === ci && idx >= drag.from.cardIndex;
-                  const showPeeked = isPeeking && !card.faceUp;
-                  return (
-                    <div key={card.id} className="absolute left-0"
-                      style={{
-                        top: cardTopCss(col, idx), zIndex: idx, width: 'var(--card-w)',
-                        opacity: isDragSource ? 0.3 : showPeeked ? 0.7 : 1,
-                        filter: showPeeked ? 'drop-shadow(0 0 4px rgba(219,39,119,0.6))' : undefined,
-                      }}>
-                      {(card.faceUp || showPeeked) ? (
-                        <CardFace
-                          card={card}
-                          selected={isInSelection && !drag?.dragging}
-                          landing={isLast && lm?.type === 'col' && lm.index === ci}
-                          appearing={isLast && lm?.type === 'distribute'}
-                          appearDelay={ci}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (peekMode && isPeekTarget) { selectPeekColumn(ci); return; }
-                            if (wasDraggingRef.current || dragRef.current?.dragging) return;
-                            if (!card.faceUp) return;
-                            clickCard(ci, idx);
-                          }}
-                          onDoubleClick={(e) => { e.stopPropagation(); if (isLast && card.faceUp) autoPlace(ci); }}
-                          onTouchStart={card.faceUp ? handleTouchStart : undefined}
-                          onTouchEnd={card.faceUp ? (e) => handleTouchEnd(ci, idx, isLast, e) : undefined}
-                          onPointerDown={(inSeq && card.faceUp) ? (e) => {
-                            e.stopPropagation();
-                            const cards = col.slice(idx);
-                            handleDragStart(
-                              { from: 'col', index: ci, cardIndex: idx },
-                              cards, e
-                            );
-                          } : undefined}
-                        />
-                      ) : (
-                        <CardBack onClick={isPeekTarget ? () => selectPeekColumn(ci) : undefined} />
-                      )}
+          {/* ─── Columns (main area) ─────────────────────── */}
+          <div ref={boardRef} role="region" aria-label={t.board.tableau} style={{
+            display: 'grid', gridTemplateColumns: `repeat(${gs.columns.length}, 1fr)`, gap: '1px',
+            pointerEvents: boardLocked ? 'none' : undefined,
+          }}>
+            {gs.columns.map((col, ci) => {
+              const isRevealing = col.some(c => revealed.has(c.id));
+              const isCheatTarget = !!targetCheat?.target?.accepts(gs, ci);
+              const pickTarget = () => pickCheatTarget(ci);
+              const autoMove = findAutoMove(gs, ci);
+              return (
+              <div key={ci} role="group" aria-label={columnLabel(col, ci, t)} className="relative" style={{
+                  minHeight: colHeight(col),
+                  outline: isCheatTarget && targetCheat ? `2px solid rgba(${targetCheat.colors.accent},0.7)`
+                    : isRevealing && runCheat ? `2px solid rgba(${runCheat.colors.accent},0.5)`
+                    : marks?.piles.has(`col-${ci}`) ? '2px solid rgba(168,85,247,0.8)'
+                    : focusedPile === `col-${ci}` && col.length === 0 ? FOCUS_RING.outline : 'none',
+                  borderRadius: '4px',
+                  cursor: isCheatTarget ? 'pointer' : undefined,
+                }}
+                data-drop-target={`col-${ci}`} data-pile={`col-${ci}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (isCheatTarget) { pickTarget(); return; }
+                  clickColumn(ci);
+                }}>
+                {col.length === 0 ? (
+                  <EmptySlot label="" onClick={() => {}} />
+                ) : (
+                  (() => {
+                  const ss = seqStart(col);
+                  return col.map((card, idx) => {
+                    const isLast = idx === col.length - 1;
+                    const inSeq = idx >= ss;
+                    const isInSelection = gs.selected?.from === 'col'
+                      && gs.selected.index === ci
+                      && idx >= gs.selected.cardIndex;
+                    const isDragSource = drag?.dragging && drag.from.from === 'col'
+                      && drag.from.index === ci && idx >= drag.from.cardIndex;
+                    const showRevealed = !card.faceUp && revealed.has(card.id);
+                    return (
+                      <div key={card.id} data-card-id={card.id} className="absolute left-0"
+                        style={{
+                          top: cardTopCss(col, idx), zIndex: idx, width: 'var(--card-w)',
+                          opacity: isDragSource ? 0.3 : showRevealed ? 0.7 : 1,
+                          filter: showRevealed && runCheat
+                            ? `drop-shadow(0 0 4px rgba(${runCheat.colors.accent},0.6))` : undefined,
+                        }}>
+                        {(card.faceUp || showRevealed) ? (
+                          <CardFace
+                            card={card}
+                            selected={isInSelection && !drag?.dragging}
+                            landing={isLast && lm?.type === 'col' && lm.index === ci}
+                            appearing={isLast && lm?.type === 'distribute'}
+                            appearDelay={ci}
+                            hinted={cardHinted(card)}
+                            focused={boardCursor?.pile === 'col' && boardCursor.index === ci && boardCursor.cardIndex === idx}
+                            onClick={boardLocked ? undefined : (e) => {
+                              e.stopPropagation();
+                              if (isCheatTarget) { pickTarget(); return; }
+                              if (wasDraggingRef.current || dragRef.current?.dragging) return;
+                              if (!card.faceUp) return;
+                              clickCard(ci, idx);
+                            }}
+                            onDoubleClick={(e) => { e.stopPropagation(); if (isLast && card.faceUp) autoPlace(ci); }}
+                            onTouchStart={card.faceUp ? handleTouchStart : undefined}
+                            onTouchEnd={card.faceUp ? (e) => handleTouchEnd(ci, idx, isLast, e) : undefined}
+                            onPointerDown={(inSeq && card.faceUp) ? (e) => {
+                              e.stopPropagation();
+                              const cards = col.slice(idx);
+                              handleDragStart(
+                                { from: 'col', index: ci, cardIndex: idx },
+                                cards, e
+                              );
+                            } : undefined}
+                          />
+                        ) : (
+                          <CardBack onClick={isCheatTarget && !boardLocked ? pickTarget : undefined} />
+                        )}
+                      </div>
+                    );
+                  });
+                })()
+                )}
+                {/* Stands in for the double click and the swipe up */}
+                {autoMove && (
+                  <button className="sr-only" onClick={(e) => { e.stopPropagation(); autoPlace(ci); }}>
+                    {autoMove.type === 'storeExcuse' ? t.speech.storeExcuse : t.speech.sendHome(cardName(col[col.length - 1], t))}
+                  </button>
+                )}
+              </div>
+            );})}
+          </div>
+
+          {/* ─── Bottom bar: Stock + Excuse + Foundations ─── */}
+          <div role="region" aria-label={t.board.bottom} style={{
+            display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start',
+            gap: '2px', marginTop: '6px', paddingBottom: '4px',
+            pointerEvents: boardLocked ? 'none' : undefined,
+          }}>
+            {/* Stock */}
+            <div data-pile="stock" role="button" aria-disabled={gs.stock.length === 0}
+              aria-label={gs.stock.length > 0 ? t.speech.stock(t.speech.cards(gs.stock.length)) : t.speech.emptyStock}
+              {...pressable(distribute, boardLocked)}
+              style={pileGlow('stock')} onClick={(e) => { e.stopPropagation(); distribute(); }}>
+              {gs.stock.length > 0 ? (
+                <div className="relative">
+                  {revealed.has(gs.stock[gs.stock.length - 1].id) && runCheat ? (
+                    <div style={{ opacity: 0.7, filter: `drop-shadow(0 0 4px rgba(${runCheat.colors.accent},0.6))` }}>
+                      <CardFace card={gs.stock[gs.stock.length - 1]} />
                     </div>
-                  );
-                });
-              })()
+                  ) : (
+                    <CardBack />
+                  )}
+                  <div className="absolute flex items-center justify-center"
+                    style={{
+                      bottom: '-3px', right: '-3px',
+                      background: '#1e293b', color: '#94a3b8',
+                      borderRadius: '999px',
+                      width: 'calc(var(--card-fs) * 1.3)', height: 'calc(var(--card-fs) * 1.3)',
+                      fontSize: 'calc(var(--card-fs) * 0.65)', fontWeight: 700,
+                      border: '1px solid #475569',
+                      fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                    }}>{gs.stock.length}</div>
+                </div>
+              ) : (
+                <EmptySlot label="" />
               )}
             </div>
-          );})}
-        </div>
 
-        {/* ─── Bottom bar: Stock + Excuse + Foundations ─── */}
-        <div style={{
-          display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start',
-          gap: '2px', marginTop: '6px', paddingBottom: '4px',
-        }}>
-          {/* Stock */}
-          <div onClick={(e) => { e.stopPropagation(); distribute(); }}>
-            {gs.stock.length > 0 ? (
-              <div className="relative">
-                <CardBack onClick={() => {}} />
-                <div className="absolute flex items-center justify-center"
+            {/* Excuse storage slot */}
+            <div data-drop-target="excuse" data-pile="excuse" role="button" aria-pressed={gs.selected?.from === 'excuse'}
+              aria-label={t.speech.excuseSlot(gs.excuseSlot && cardName(gs.excuseSlot, t))}
+              {...pressable(clickExcuseSlot, boardLocked)}
+              style={pileStyle('excuse')} onClick={(e) => {
+              e.stopPropagation();
+              if (wasDraggingRef.current) return;
+              clickExcuseSlot();
+            }}>
+              {gs.excuseSlot ? (
+                <div data-card-id={gs.excuseSlot.id} className="relative cursor-pointer" style={{
+                  animation: lm?.type === 'excuse' ? 'fdn-glow 0.6s ease-out' : undefined,
+                  borderRadius: 'var(--card-r)',
+                  opacity: drag?.dragging && drag.from.from === 'excuse' ? 0.3 : 1,
+                }}>
+                  <CardFace
+                    card={gs.excuseSlot}
+                    selected={gs.selected?.from === 'excuse' && !drag?.dragging}
+                    landing={lm?.type === 'excuse'}
+                    hinted={cardHinted(gs.excuseSlot)}
+                    onPointerDown={(e) => {
+                      e.stopPropagation();
+                      if (gs.excuseSlot) {
+                        handleDragStart({ from: 'excuse' }, [gs.excuseSlot], e);
+                      }
+                    }}
+                  />
+                </div>
+              ) : (
+                <div
+                  className="select-none flex flex-col items-center justify-center cursor-pointer"
                   style={{
-                    bottom: '-3px', right: '-3px',
-                    background: '#1e293b', color: '#94a3b8',
-                    borderRadius: '999px',
-                    width: 'calc(var(--card-fs) * 1.3)', height: 'calc(var(--card-fs) * 1.3)',
-                    fontSize: 'calc(var(--card-fs) * 0.65)', fontWeight: 700,
-                    border: '1px solid #475569',
+                    width: 'var(--card-w)', height: 'var(--card-h)',
+                    borderRadius: 'var(--card-r)',
+                    border: '1.5px dashed rgba(251,191,36,0.2)',
+                    color: 'rgba(251,191,36,0.3)',
+                    fontSize: 'calc(var(--card-fs) * 0.6)',
                     fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                  }}>{gs.stock.length}</div>
-              </div>
-            ) : (
-              <EmptySlot label="" />
-            )}
-          </div>
+                    fontWeight: 600, background: 'rgba(251,191,36,0.03)',
+                  }}
+                >
+                  <span style={{ fontSize: 'calc(var(--card-fs) * 0.9)', fontWeight: 800 }}>?</span>
+                  <span>{t.board.excuse}</span>
+                </div>
+              )}
+            </div>
 
-          {/* Excuse storage slot */}
-          <div data-drop-target="excuse" onClick={(e) => {
-            e.stopPropagation();
-            if (wasDraggingRef.current) return;
-            clickExcuseSlot();
-          }}>
-            {gs.excuseSlot ? (
-              <div className="relative cursor-pointer" style={{
-                animation: lm?.type === 'excuse' ? 'fdn-glow 0.6s ease-out' : undefined,
-                borderRadius: 'var(--card-r)',
-                opacity: drag?.dragging && drag.from.from === 'excuse' ? 0.3 : 1,
-              }}>
-                <CardFace
-                  card={gs.excuseSlot}
-                  selected={gs.selected?.from === 'excuse' && !drag?.dragging}
-                  landing={lm?.type === 'excuse'}
+            <div style={{ flex: 1, minWidth: '2px' }} />
+
+            {/* 4 Suit foundations */}
+            {[0, 1, 2, 3].map(fi => (
+              <div key={fi} data-drop-target={`fdn-${fi}`} data-pile={`fdn-${fi}`} role="button" aria-label={foundationLabel(gs.foundations[fi], fi, t)}
+                aria-pressed={gs.selected?.from === 'fdn' && gs.selected.index === fi}
+                {...pressable(() => clickFoundation(fi), boardLocked)}
+                style={pileStyle(`fdn-${fi}`)} onClick={(e) => { e.stopPropagation(); clickFoundation(fi); }}>
+                <FoundationSlot
+                  fdn={gs.foundations[fi]} fi={fi} onClick={() => {}}
+                  landing={lm?.type === 'fdn' && lm.index === fi}
+                  auto={lm?.type === 'fdn' && lm.auto}
+                  hinted={cardHinted(gs.foundations[fi].at(-1))}
+                  selected={gs.selected?.from === 'fdn' && gs.selected.index === fi && !drag?.dragging}
                   onPointerDown={(e) => {
                     e.stopPropagation();
-                    if (gs.excuseSlot) {
-                      handleDragStart({ from: 'excuse' }, [gs.excuseSlot], e);
-                    }
+                    const f = gs.foundations[fi];
+                    if (f.length > 0) handleDragStart({ from: 'fdn', index: fi }, [f[f.length - 1]], e);
                   }}
                 />
               </div>
-            ) : (
-              <div
-                className="select-none flex flex-col items-center justify-center cursor-pointer"
+            ))}
+
+            {/* Trump ascending [4] */}
+            <div data-drop-target="fdn-4" data-pile="fdn-4" role="button" aria-label={foundationLabel(gs.foundations[4], 4, t)}
+              aria-pressed={gs.selected?.from === 'fdn' && gs.selected.index === 4}
+              {...pressable(() => clickFoundation(4), boardLocked)}
+              style={pileStyle('fdn-4')} onClick={(e) => { e.stopPropagation(); clickFoundation(4); }}>
+              <FoundationSlot
+                fdn={gs.foundations[4]} fi={4} onClick={() => {}}
+                landing={lm?.type === 'fdn' && lm.index === 4}
+                auto={lm?.type === 'fdn' && lm.auto}
+                hinted={cardHinted(gs.foundations[4].at(-1))}
+                dirLabel={gs.trumpsMerged ? '✓' : '↑'}
+                selected={gs.selected?.from === 'fdn' && gs.selected.index === 4 && !drag?.dragging}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  const f = gs.foundations[4];
+                  if (f.length > 0) handleDragStart({ from: 'fdn', index: 4 }, [f[f.length - 1]], e);
+                }}
+              />
+            </div>
+
+            {/* Merge button */}
+            {showMerge && (
+              <button
+                onClick={(e) => { e.stopPropagation(); mergeTrumps(); }}
+                className="self-center"
                 style={{
-                  width: 'var(--card-w)', height: 'var(--card-h)',
-                  borderRadius: 'var(--card-r)',
-                  border: '1.5px dashed rgba(251,191,36,0.2)',
-                  color: 'rgba(251,191,36,0.3)',
-                  fontSize: 'calc(var(--card-fs) * 0.6)',
+                  fontSize: 'clamp(7px, 1.2vw, 11px)',
                   fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                  fontWeight: 600, background: 'rgba(251,191,36,0.03)',
+                  fontWeight: 600,
+                  background: 'linear-gradient(135deg, #92400e, #b45309)',
+                  color: '#fcd34d', border: '1px solid #d97706',
+                  borderRadius: '6px', cursor: 'pointer', padding: '2px 5px',
+                  animation: 'merge-pulse 1.5s ease-in-out infinite',
                 }}
-              >
-                <span style={{ fontSize: 'calc(var(--card-fs) * 0.9)', fontWeight: 800 }}>?</span>
-                <span>Excuse</span>
+              >{t.board.merge}</button>
+            )}
+
+            {/* Trump descending [5] */}
+            {!gs.trumpsMerged && (
+              <div data-drop-target="fdn-5" data-pile="fdn-5" role="button" aria-label={foundationLabel(gs.foundations[5], 5, t)}
+                aria-pressed={gs.selected?.from === 'fdn' && gs.selected.index === 5}
+                {...pressable(() => clickFoundation(5), boardLocked)}
+                style={pileStyle('fdn-5')} onClick={(e) => { e.stopPropagation(); clickFoundation(5); }}>
+                <FoundationSlot
+                  fdn={gs.foundations[5]} fi={5} onClick={() => {}}
+                  landing={lm?.type === 'fdn' && lm.index === 5}
+                  auto={lm?.type === 'fdn' && lm.auto}
+                  hinted={cardHinted(gs.foundations[5].at(-1))}
+                  dirLabel="↓"
+                  selected={gs.selected?.from === 'fdn' && gs.selected.index === 5 && !drag?.dragging}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    const f = gs.foundations[5];
+                    if (f.length > 0) handleDragStart({ from: 'fdn', index: 5 }, [f[f.length - 1]], e);
+                  }}
+                />
               </div>
             )}
           </div>
 
-          <div style={{ flex: 1, minWidth: '2px' }} />
+          {/* ─── Replay controls ─────────────────────────── */}
+          {replay && (
+            <ReplayBar
+              step={replay.step} steps={replay.frames.length - 1}
+              playing={replay.playing} speed={replay.speed}
+              onStep={replayTo} onTogglePlay={toggleReplayPlay}
+              onSpeed={speed => setReplay(r => r && { ...r, speed })}
+              onResume={resumeReplay} onClose={() => setReplay(null)}
+            />
+          )}
 
-          {/* 4 Suit foundations */}
-          {[0, 1, 2, 3].map(fi => (
-            <div key={fi} data-drop-target={`fdn-${fi}`} onClick={(e) => { e.stopPropagation(); clickFoundation(fi); }}>
-              <FoundationSlot
-                fdn={gs.foundations[fi]} fi={fi} onClick={() => {}}
-                landing={lm?.type === 'fdn' && lm.index === fi}
-                selected={gs.selected?.from === 'fdn' && gs.selected.index === fi && !drag?.dragging}
-                onPointerDown={(e) => {
-                  e.stopPropagation();
-                  const f = gs.foundations[fi];
-                  if (f.length > 0) handleDragStart({ from: 'fdn', index: fi }, [f[f.length - 1]], e);
-                }}
-              />
+          {/* ─── Automatic finish ───────────────────────── */}
+          {canFinish && !finishQueue && (
+            <div style={{
+              display: 'flex', justifyContent: 'center', marginTop: '4px', paddingBottom: '4px',
+            }}>
+              <button onClick={(e) => { e.stopPropagation(); finishGame(); }} style={{
+                fontSize: 'clamp(9px, 1.8vw, 13px)', padding: '5px 14px',
+                background: 'linear-gradient(135deg, #047857, #059669)', color: '#ecfdf5',
+                border: '1px solid #10b981', borderRadius: '999px', cursor: 'pointer',
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 700,
+                boxShadow: '0 2px 10px rgba(16,185,129,0.35)',
+              }}>{t.board.finish}</button>
             </div>
-          ))}
-
-          {/* Trump ascending [4] */}
-          <div data-drop-target="fdn-4" onClick={(e) => { e.stopPropagation(); clickFoundation(4); }}>
-            <FoundationSlot
-              fdn={gs.foundations[4]} fi={4} onClick={() => {}}
-              landing={lm?.type === 'fdn' && lm.index === 4}
-              dirLabel={gs.trumpsMerged ? '✓' : '↑'}
-              selected={gs.selected?.from === 'fdn' && gs.selected.index === 4 && !drag?.dragging}
-              onPointerDown={(e) => {
-                e.stopPropagation();
-                const f = gs.foundations[4];
-                if (f.length > 0) handleDragStart({ from: 'fdn', index: 4 }, [f[f.length - 1]], e);
-              }}
-            />
-          </div>
+          )}
 
-          {/* Merge button */}
-          {showMerge && (
-            <button
-              onClick={(e) => { e.stopPropagation(); mergeTrumps(); }}
-              className="self-center"
-              style={{
-                fontSize: 'clamp(7px, 1.2vw, 11px)',
-                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                fontWeight: 600,
-                background: 'linear-gradient(135deg, #92400e, #b45309)',
-                color: '#fcd34d', border: '1px solid #d97706',
-                borderRadius: '6px', cursor: 'pointer', padding: '2px 5px',
-                animation: 'merge-pulse 1.5s ease-in-out infinite',
-              }}
-            >Fusionner</button>
+          {/* ─── Only distributing is left ───────────────── */}
+          {currentOutlook === 'distribute-only' && cheatRun?.phase !== 'steps' && (
+            <div style={{
+              display: 'flex', justifyContent: 'center', marginTop: '4px', paddingBottom: '4px',
+            }}>
+              <div style={{
+                fontSize: 'clamp(9px, 1.8vw, 13px)', padding: '4px 12px',
+                background: 'rgba(245,158,11,0.12)', color: '#fcd34d',
+                border: '1px solid rgba(245,158,11,0.35)', borderRadius: '999px',
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 600,
+              }}>{t.board.distributeOnly}</div>
+            </div>
           )}
 
-          {/* Trump descending [5] */}
-          {!gs.trumpsMerged && (
-            <div data-drop-target="fdn-5" onClick={(e) => { e.stopPropagation(); clickFoundation(5); }}>
-              <FoundationSlot
-                fdn={gs.foundations[5]} fi={5} onClick={() => {}}
-                landing={lm?.type === 'fdn' && lm.index === 5}
-                dirLabel="↓"
-                selected={gs.selected?.from === 'fdn' && gs.selected.index === 5 && !drag?.dragging}
-                onPointerDown={(e) => {
-                  e.stopPropagation();
-                  const f = gs.foundations[5];
-                  if (f.length > 0) handleDragStart({ from: 'fdn', index: 5 }, [f[f.length - 1]], e);
+          {/* ─── Step-by-step cheat bar ─────────────────── */}
+          {cheatRun?.phase === 'steps' && (
+            <div style={{
+              display: 'flex', alignItems: 'center', justifyContent: 'center',
+              gap: '8px', marginTop: '4px', paddingBottom: '4px',
+            }}>
+              <button
+                onClick={(e) => { e.stopPropagation(); nextCheatStep(); }}
+                style={{
+                  fontSize: 'clamp(9px, 1.8vw, 14px)', padding: '6px 16px',
+                  background: 'linear-gradient(135deg, #2563eb, #1d4ed8)',
+                  color: '#fff', border: '1px solid #3b82f6',
+                  borderRadius: '8px', cursor: 'pointer',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                  fontWeight: 700, animation: 'slow-dist-pulse 1.5s ease-in-out infinite',
                 }}
-              />
+              >{runText?.stepLabel ?? t.board.nextStep} ({cheatRun.actions.length})</button>
+              <button
+                onClick={(e) => { e.stopPropagation(); stopCheat(); }}
+                style={{
+                  fontSize: 'clamp(9px, 1.8vw, 14px)', padding: '6px 12px',
+                  background: 'var(--felt-fill)', color: 'var(--felt-text)',
+                  border: '1px solid var(--felt-line)',
+                  borderRadius: '8px', cursor: 'pointer',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                  fontWeight: 600,
+                }}
+              >{t.board.stop}</button>
             </div>
           )}
-        </div>
 
-        {/* ─── Slow distribution bar ──────────────────── */}
-        {gs.cheat.slowDistMode && (
-          <div style={{
-            display: 'flex', alignItems: 'center', justifyContent: 'center',
-            gap: '8px', marginTop: '4px', paddingBottom: '4px',
-          }}>
-            <button
-              onClick={(e) => { e.stopPropagation(); slowDistNext(); }}
-              style={{
+          {/* ─── Cheat target: pick a column ────────────── */}
+          {targetCheat?.target && (
+            <div style={{
+              display: 'flex', alignItems: 'center', justifyContent: 'center',
+              gap: '8px', marginTop: '4px', paddingBottom: '4px',
+            }}>
+              <div style={{
                 fontSize: 'clamp(9px, 1.8vw, 14px)', padding: '6px 16px',
-                background: 'linear-gradient(135deg, #2563eb, #1d4ed8)',
-                color: '#fff', border: '1px solid #3b82f6',
-                borderRadius: '8px', cursor: 'pointer',
+                background: targetCheat.colors.gradient,
+                color: targetCheat.colors.text, border: `1px solid rgba(${targetCheat.colors.accent},0.6)`,
+                borderRadius: '8px',
                 fontFamily: "'SF Pro Display', -apple-system, sans-serif",
                 fontWeight: 700, animation: 'slow-dist-pulse 1.5s ease-in-out infinite',
-              }}
-            >Carte suivante ({gs.cheat.slowDistEligible.length})</button>
-            <button
-              onClick={(e) => { e.stopPropagation(); slowDistStop(); }}
-              style={{
-                fontSize: 'clamp(9px, 1.8vw, 14px)', padding: '6px 12px',
-                background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.6)',
-                border: '1px solid rgba(255,255,255,0.15)',
-                borderRadius: '8px', cursor: 'pointer',
-                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                fontWeight: 600,
-              }}
-            >Stop</button>
-          </div>
-        )}
+                textAlign: 'center' as const,
+              }}>{t.cheat(targetCheat).prompt}</div>
+            </div>
+          )}
 
-        {/* ─── Peek mode: select a column to reveal ──── */}
-        {peekMode && (
-          <div style={{
-            display: 'flex', alignItems: 'center', justifyContent: 'center',
-            gap: '8px', marginTop: '4px', paddingBottom: '4px',
-          }}>
+          {/* ─── Cheat buttons ──────────────────────────── */}
+          {!replay && !gs.gameOver && !cheatRun && (
             <div style={{
-              fontSize: 'clamp(9px, 1.8vw, 14px)', padding: '6px 16px',
-              background: 'linear-gradient(135deg, #db2777, #be185d)',
-              color: '#fce7f3', border: '1px solid rgba(219,39,119,0.6)',
-              borderRadius: '8px',
-              fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-              fontWeight: 700, animation: 'slow-dist-pulse 1.5s ease-in-out infinite',
-              textAlign: 'center' as const,
-            }}>Choisis une colonne avec des cartes cach&#233;es</div>
-          </div>
-        )}
+              display: 'flex', alignItems: 'center', justifyContent: 'center',
+              gap: '8px', marginTop: '4px', paddingBottom: '4px',
+            }}>
+              {CHEATS.map(cheat => {
+                const usable = cheatUsable(gs, cheat);
+                const left = cheat.limit - (gs.cheat.uses[cheat.id] ?? 0);
+                const name = t.cheat(cheat).name;
+                return (
+                  <button key={cheat.id}
+                    onClick={(e) => { e.stopPropagation(); activateCheat(cheat); }}
+                    disabled={!usable}
+                    title={cheat.limit > 1 ? t.board.cheatLeft(name, left) : name}
+                    style={{
+                      fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '5px 12px',
+                      background: usable ? cheat.colors.gradient : 'var(--felt-fill)',
+                      color: usable ? cheat.colors.text : 'var(--felt-line)',
+                      border: usable ? `1px solid rgba(${cheat.colors.accent},0.6)` : '1px solid var(--felt-fill)',
+                      borderRadius: '999px',
+                      cursor: usable ? 'pointer' : 'default',
+                      fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                      fontWeight: 700, opacity: usable ? 1 : 0.4,
+                      letterSpacing: '0.03em',
+                      boxShadow: usable ? `0 2px 8px rgba(${cheat.colors.accent},0.4), inset 0 1px 0 rgba(255,255,255,0.15)` : 'none',
+                      textShadow: usable ? '0 1px 2px rgba(0,0,0,0.3)' : 'none',
+                      transition: 'transform 0.15s, box-shadow 0.15s',
+                    }}
+                  >{name}</button>
+                );
+              })}
+            </div>
+          )}
 
-        {/* ─── Cheat buttons ──────────────────────────── */}
-        {!gs.gameOver && !gs.cheat.slowDistMode && !gs.cheat.activeCheat && !peekMode && peekCol === null && (
-          <div style={{
-            display: 'flex', alignItems: 'center', justifyContent: 'center',
-            gap: '8px', marginTop: '4px', paddingBottom: '4px',
-          }}>
-            <button
-              onClick={(e) => { e.stopPropagation(); activatePeekCheat(); }}
-              disabled={gs.cheat.peekUsed}
-              style={{
-                fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '5px 12px',
-                background: gs.cheat.peekUsed
-                  ? 'rgba(255,255,255,0.03)'
-                  : 'linear-gradient(135deg, #db2777 0%, #be185d 40%, #9d174d 100%)',
-                color: gs.cheat.peekUsed ? 'rgba(255,255,255,0.15)' : '#fce7f3',
-                border: gs.cheat.peekUsed
-                  ? '1px solid rgba(255,255,255,0.05)'
-                  : '1px solid rgba(219,39,119,0.6)',
-                borderRadius: '999px',
-                cursor: gs.cheat.peekUsed ? 'default' : 'pointer',
-                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                fontWeight: 700, opacity: gs.cheat.peekUsed ? 0.4 : 1,
-                letterSpacing: '0.03em',
-                boxShadow: gs.cheat.peekUsed ? 'none' : '0 2px 8px rgba(219,39,119,0.4), inset 0 1px 0 rgba(255,255,255,0.15)',
-                textShadow: gs.cheat.peekUsed ? 'none' : '0 1px 2px rgba(0,0,0,0.3)',
-                transition: 'transform 0.15s, box-shadow 0.15s',
-              }}
-            >{gs.cheat.peekUsed ? 'Petite fille' : 'Petite fille'}</button>
-            <button
-              onClick={(e) => { e.stopPropagation(); activateSlowDistCheat(); }}
-              disabled={gs.cheat.slowDistUsed || gs.stock.length === 0}
-              style={{
-                fontSize: 'clamp(8px, 1.6vw, 12px)', padding: '5px 12px',
-                background: (gs.cheat.slowDistUsed || gs.stock.length === 0)
-                  ? 'rgba(255,255,255,0.03)'
-                  : 'linear-gradient(135deg, #059669 0%, #047857 40%, #065f46 100%)',
-                color: (gs.cheat.slowDistUsed || gs.stock.length === 0) ? 'rgba(255,255,255,0.15)' : '#d1fae5',
-                border: (gs.cheat.slowDistUsed || gs.stock.length === 0)
-                  ? '1px solid rgba(255,255,255,0.05)'
-                  : '1px solid rgba(16,185,129,0.6)',
-                borderRadius: '999px',
-                cursor: (gs.cheat.slowDistUsed || gs.stock.length === 0) ? 'default' : 'pointer',
-                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                fontWeight: 700,
-                opacity: (gs.cheat.slowDistUsed || gs.stock.length === 0) ? 0.4 : 1,
-                letterSpacing: '0.03em',
-                boxShadow: (gs.cheat.slowDistUsed || gs.stock.length === 0) ? 'none' : '0 2px 8px rgba(5,150,105,0.4), inset 0 1px 0 rgba(255,255,255,0.15)',
-                textShadow: (gs.cheat.slowDistUsed || gs.stock.length === 0) ? 'none' : '0 1px 2px rgba(0,0,0,0.3)',
-                transition: 'transform 0.15s, box-shadow 0.15s',
-              }}
-            >{(gs.cheat.slowDistUsed || gs.stock.length === 0) ? 'Triche de l\'Aude' : 'Triche de l\'Aude'}</button>
-          </div>
-        )}
+          {/* ─── Solver verdict on the current position ─── */}
+          {activeHint && !activeHint.move && (
+            <div style={{
+              textAlign: 'center', marginTop: '4px', paddingBottom: '4px',
+              fontSize: 'clamp(9px, 1.8vw, 13px)', color: 'var(--felt-dim)',
+              fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 600,
+            }}>{t.board.noHint}</div>
+          )}
 
-        {/* ─── Cheat fullscreen animation overlay ─────── */}
-        {gs.cheat.activeCheat && (
-          <div
-            className="fixed inset-0 flex items-center justify-center"
-            style={{
-              zIndex: 2000, pointerEvents: 'none',
-              animation: 'cheat-overlay-in 1.8s ease-out forwards',
-              background: gs.cheat.activeCheat === 'peek'
-                ? 'radial-gradient(ellipse at center, rgba(219,39,119,0.4) 0%, rgba(0,0,0,0.8) 70%)'
-                : 'radial-gradient(ellipse at center, rgba(5,150,105,0.4) 0%, rgba(0,0,0,0.8) 70%)',
-            }}
-          >
-            {/* Flash */}
-            <div className="absolute inset-0" style={{
-              background: gs.cheat.activeCheat === 'peek'
-                ? 'rgba(219, 39, 119, 1)'
-                : 'rgba(16, 185, 129, 1)',
-              animation: 'cheat-flash 1.8s ease-out forwards',
-            }} />
-            {/* Icon */}
+          {analysis && analysis.key === posKey && (
             <div style={{
-              position: 'absolute', top: '38%', left: '50%',
-              fontSize: 'clamp(60px, 15vw, 120px)',
-              animation: 'cheat-skull 1.8s ease-out forwards',
-              filter: 'drop-shadow(0 0 30px rgba(255,255,255,0.3))',
+              textAlign: 'center', marginTop: '4px', paddingBottom: '4px',
+              fontSize: 'clamp(9px, 1.8vw, 13px)',
+              fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontWeight: 600,
+              color: analysis.result?.status === 'gagnable' ? '#6ee7b7'
+                : analysis.result?.status === 'perdue' ? '#fca5a5' : 'var(--felt-dim)',
             }}>
-              {gs.cheat.activeCheat === 'peek' ? '👧' : '🍇'}
+              {analysis.result === null ? t.board.analysing
+                : analysis.result.status === 'gagnable'
+                  ? t.board.winnable(analysis.result.line.length)
+                  : analysis.result.status === 'perdue'
+                    ? t.board.lost
+                    : t.board.unknown(analysis.result.nodes)}
             </div>
-            {/* Text */}
-            <div style={{
-              position: 'absolute', top: '58%', left: '50%',
-              animation: 'cheat-text 1.8s ease-out forwards',
-              fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-              fontSize: 'clamp(18px, 5vw, 36px)',
-              fontWeight: 900, letterSpacing: '0.1em',
-              textTransform: 'uppercase',
-              color: '#fff',
-              textShadow: gs.cheat.activeCheat === 'peek'
-                ? '0 0 20px rgba(219,39,119,0.8), 0 0 40px rgba(219,39,119,0.4)'
-                : '0 0 20px rgba(16,185,129,0.8), 0 0 40px rgba(16,185,129,0.4)',
-              whiteSpace: 'nowrap',
-            }}>
-              {gs.cheat.activeCheat === 'peek' ? 'PETITE FILLE !' : 'TRICHE DE L\'AUDE !'}
+          )}
+
+          {record && !replay && <HistoryPanel record={record} onImport={importGame} />}
+
+          {/* ─── Cheat fullscreen animation overlay ─────── */}
+          {cheatRun?.phase === 'animation' && runCheat && (
+            <div
+              aria-hidden
+              className="fixed inset-0 flex items-center justify-center"
+              style={{
+                zIndex: 2000, pointerEvents: 'none',
+                animation: `cheat-overlay-in ${runCheat.animationMs}ms ease-out forwards`,
+                background: `radial-gradient(ellipse at center, rgba(${runCheat.colors.accent},0.4) 0%, rgba(0,0,0,0.8) 70%)`,
+              }}
+            >
+              {/* Flash */}
+              <div className="absolute inset-0" style={{
+                background: `rgba(${runCheat.colors.accent}, 1)`,
+                animation: `cheat-flash ${runCheat.animationMs}ms ease-out forwards`,
+              }} />
+              {/* Icon */}
+              <div style={{
+                position: 'absolute', top: '38%', left: '50%',
+                fontSize: 'clamp(60px, 15vw, 120px)',
+                animation: `cheat-skull ${runCheat.animationMs}ms ease-out forwards`,
+                filter: 'drop-shadow(0 0 30px rgba(255,255,255,0.3))',
+              }}>
+                {runCheat.icon}
+              </div>
+              {/* Text */}
+              <div style={{
+                position: 'absolute', top: '58%', left: '50%',
+                animation: `cheat-text ${runCheat.animationMs}ms ease-out forwards`,
+                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                fontSize: 'clamp(18px, 5vw, 36px)',
+                fontWeight: 900, letterSpacing: '0.1em',
+                textTransform: 'uppercase',
+                color: '#fff',
+                textShadow: `0 0 20px rgba(${runCheat.colors.accent},0.8), 0 0 40px rgba(${runCheat.colors.accent},0.4)`,
+                whiteSpace: 'nowrap',
+              }}>
+                {runText?.shout}
+              </div>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* ─── Drag ghost overlay ──────────────────────── */}
-        {drag?.dragging && (
-          <div id="drag-ghost" style={{
-            position: 'fixed', left: 0, top: 0, width: '100%', height: '100%',
-            pointerEvents: 'none', zIndex: 1000,
-          }}>
-            <div style={{
-              position: 'absolute',
-              left: drag.currentX - drag.offsetX,
-              top: drag.currentY - drag.offsetY,
-              opacity: 0.9,
-              transform: 'rotate(2deg) scale(1.05)',
-              filter: 'drop-shadow(0 8px 16px rgba(0,0,0,0.5))',
+          {/* ─── Cards travelling to a hidden place ─────── */}
+          {ghosts.length > 0 && (
+            <div aria-hidden style={{
+              position: 'fixed', left: 0, top: 0, width: '100%', height: '100%',
+              pointerEvents: 'none', zIndex: 200,
             }}>
-              {drag.cards.map((card, i) => (
-                <div key={card.id} style={{
-                  position: i === 0 ? 'relative' : 'absolute',
-                  top: i === 0 ? 0 : `calc(${i} * var(--peek-up))`,
-                  left: 0,
-                  zIndex: i,
-                }}>
-                  <CardFace card={card} />
+              {ghosts.map(g => (
+                <div key={g.key} style={{
+                  position: 'absolute', left: g.to.x, top: g.to.y,
+                  animation: `card-travel ${TRAVEL_MS}ms cubic-bezier(0.2, 0.7, 0.3, 1) ${g.delay}ms both`,
+                  '--dx': `${g.dx}px`, '--dy': `${g.dy}px`,
+                } as React.CSSProperties}>
+                  <CardFace card={g.card} />
                 </div>
               ))}
             </div>
-          </div>
-        )}
-
-        {/* ─── Victory Celebration ─────────────────────────────────── */}
-        {gs.gameOver && (() => {
-          const hearts = Array.from({ length: 30 }, (_, i) => ({
-            id: i,
-            left: `${Math.random() * 100}%`,
-            delay: `${Math.random() * 4}s`,
-            duration: `${3 + Math.random() * 4}s`,
-            size: `${18 + Math.random() * 28}px`,
-            floatY: `${-200 - Math.random() * 400}px`,
-            rot: `${-30 + Math.random() * 60}deg`,
-            rotEnd: `${-40 + Math.random() * 80}deg`,
-            emoji: ['❤️', '💖', '💕', '💗', '💝', '💘', '🩷', '✨', '🌟', '⭐'][i % 10],
-          }));
-          const confetti = Array.from({ length: 40 }, (_, i) => ({
-            id: i,
-            left: `${Math.random() * 100}%`,
-            delay: `${Math.random() * 3}s`,
-            duration: `${2 + Math.random() * 3}s`,
-            color: ['#ff6b9d', '#c44dff', '#ff4d4d', '#ffd700', '#ff69b4', '#ff1493', '#f59e0b', '#4dffb8'][i % 8],
-            size: `${6 + Math.random() * 8}px`,
-            fallY: `${300 + Math.random() * 400}px`,
-            rot: `${360 + Math.random() * 720}deg`,
-          }));
-          const fireworks = Array.from({ length: 6 }, (_, i) => ({
-            id: i,
-            left: `${15 + Math.random() * 70}%`,
-            top: `${10 + Math.random() * 40}%`,
-            delay: `${i * 0.8 + Math.random() * 0.5}s`,
-            color: ['#ff6b9d', '#ffd700', '#c44dff', '#ff4d4d', '#4dffb8', '#ff69b4'][i],
-          }));
-          return (
-          <div className="fixed inset-0 z-50" style={{
-            animation: 'victory-overlay-in 0.8s ease-out forwards',
-          }}>
-            {/* Dark overlay */}
-            <div style={{
-              position: 'absolute', inset: 0,
-              background: 'radial-gradient(ellipse at 50% 50%, rgba(60,0,40,0.85) 0%, rgba(0,0,0,0.92) 100%)',
-              backdropFilter: 'blur(12px)',
-            }} />
-
-            {/* Confetti rain */}
-            {confetti.map(c => (
-              <div key={`conf-${c.id}`} style={{
-                position: 'absolute', top: -10, left: c.left,
-                width: c.size, height: c.size,
-                borderRadius: c.id % 3 === 0 ? '50%' : c.id % 3 === 1 ? '2px' : '0',
-                background: c.color,
-                animation: `victory-confetti-fall ${c.duration} ${c.delay} ease-in infinite`,
-                ['--fall-y' as string]: c.fallY,
-                ['--conf-rot' as string]: c.rot,
-                zIndex: 51,
-              }} />
-            ))}
+          )}
 
-            {/* Firework bursts */}
-            {fireworks.map(fw => (
-              <div key={`fw-${fw.id}`} style={{
-                position: 'absolute', left: fw.left, top: fw.top, zIndex: 52,
+          {/* ─── Drag ghost overlay ──────────────────────── */}
+          {drag?.dragging && (
+            <div id="drag-ghost" aria-hidden style={{
+              position: 'fixed', left: 0, top: 0, width: '100%', height: '100%',
+              pointerEvents: 'none', zIndex: 1000,
+            }}>
+              <div style={{
+                position: 'absolute',
+                left: drag.currentX - drag.offsetX,
+                top: drag.currentY - drag.offsetY,
+                opacity: 0.9,
+                transform: 'rotate(2deg) scale(1.05)',
+                filter: 'drop-shadow(0 8px 16px rgba(0,0,0,0.5))',
               }}>
-                {Array.from({ length: 12 }, (_, j) => {
-                  const angle = (j * 30) * Math.PI / 180;
-                  const dist = 40 + Math.random() * 60;
-                  return (
-                    <div key={j} style={{
-                      position: 'absolute',
-                      width: '6px', height: '6px', borderRadius: '50%',
-                      background: fw.color,
-                      boxShadow: `0 0 8px ${fw.color}, 0 0 16px ${fw.color}`,
-                      animation: `victory-spark 1.2s ${fw.delay} ease-out infinite`,
-                      ['--sx' as string]: `${Math.cos(angle) * dist}px`,
-                      ['--sy' as string]: `${Math.sin(angle) * dist}px`,
-                    }} />
-                  );
-                })}
+                {drag.cards.map((card, i) => (
+                  <div key={card.id} style={{
+                    position: i === 0 ? 'relative' : 'absolute',
+                    top: i === 0 ? 0 : `calc(${i} * var(--peek-up))`,
+                    left: 0,
+                    zIndex: i,
+                  }}>
+                    <CardFace card={card} />
+                  </div>
+                ))}
               </div>
-            ))}
+            </div>
+          )}
 
-            {/* Floating hearts */}
-            {hearts.map(h => (
-              <div key={`heart-${h.id}`} style={{
-                position: 'absolute', bottom: '-20px', left: h.left,
-                fontSize: h.size, zIndex: 53,
-                animation: `victory-heart-float ${h.duration} ${h.delay} ease-out infinite`,
-                ['--float-y' as string]: h.floatY,
-                ['--rot' as string]: h.rot,
-                ['--rot-end' as string]: h.rotEnd,
-                pointerEvents: 'none',
-              }}>{h.emoji}</div>
-            ))}
+          {dealSearch && (
+            <div role="status" className="fixed z-[60] flex items-center" style={{
+              top: '12px', left: '50%', transform: 'translateX(-50%)', gap: '10px',
+              padding: '6px 8px 6px 14px', borderRadius: '999px',
+              background: 'rgba(17,24,39,0.95)', border: '1px solid rgba(245,158,11,0.4)',
+              boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+              fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontSize: '13px', color: '#fcd34d',
+            }}>
+              {t.searching(searchLabel!)}
+              <button onClick={() => setDealSearch(null)} style={{
+                padding: '3px 10px', borderRadius: '999px', cursor: 'pointer',
+                background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.75)',
+                border: '1px solid rgba(255,255,255,0.15)', fontFamily: 'inherit', fontSize: '12px',
+              }}>{t.cancel}</button>
+            </div>
+          )}
 
-            {/* Central content */}
-            <div style={{
-              position: 'absolute', inset: 0,
-              display: 'flex', flexDirection: 'column',
-              alignItems: 'center', justifyContent: 'center',
-              zIndex: 54, padding: '20px',
+          {searchFailure && (
+            <div className="fixed z-[60]" style={{ top: '12px', left: '50%', transform: 'translateX(-50%)' }}>
+              {searchFailure}
+            </div>
+          )}
+
+          {showStats && (
+            <StatsPanel stats={stats} cheats={cheatLabels} onReset={resetStats} onClose={() => setShowStats(false)} />
+          )}
+
+          {showSettings && (
+            <SettingsPanel
+              settings={settings} sound={sound} gameVariant={gs.variant.id}
+              onChange={updateSettings} onSoundChange={updateSound}
+              onNewDeal={() => { setShowSettings(false); restart(); }} onClose={() => setShowSettings(false)}
+            />
+          )}
+
+          {showProfiles && (
+            <ProfilesPanel
+              profiles={profiles} onSwitch={switchProfile} onChange={updateProfile}
+              onAdd={addProfile} onRemove={removeProfile} onClose={() => setShowProfiles(false)}
+            />
+          )}
+
+          {showDaily && (
+            <DailyPanel
+              days={recentDays(new Date(), 14)} results={dailyResults} status={dailyStatus}
+              profileId={profileId} cheats={cheatLabels}
+              onPlay={playDaily} onReplay={replayDailyDeal} onClose={() => setShowDaily(false)}
+            />
+          )}
+
+          {/* ─── Blocked game ───────────────────────────── */}
+          {currentOutlook === 'blocked' && !gs.gameOver && (
+            <div role="alertdialog" aria-modal="true" aria-label={t.blocked.title}
+              className="fixed inset-0 z-50 flex items-center justify-center" style={{
+              animation: 'victory-overlay-in 0.5s ease-out forwards',
+              background: 'rgba(0,0,0,0.75)', backdropFilter: 'blur(6px)', padding: '20px',
             }}>
-              {/* Big trophy/celebration */}
               <div style={{
-                fontSize: 'clamp(60px, 15vw, 100px)',
-                animation: 'victory-title-in 1s ease-out forwards, victory-bounce 2s 1.5s ease-in-out infinite',
-                opacity: 0,
-              }}>🏆</div>
-
-              {/* VICTOIRE title with shimmer */}
-              <h1 style={{
-                fontSize: 'clamp(36px, 10vw, 64px)',
-                fontWeight: 900,
-                background: 'linear-gradient(90deg, #ffd700, #ff6b9d, #c44dff, #ffd700, #ff6b9d)',
-                backgroundSize: '200% auto',
-                WebkitBackgroundClip: 'text',
-                WebkitTextFillColor: 'transparent',
-                animation: 'victory-title-in 1s 0.3s ease-out forwards, victory-shimmer 3s 1.3s linear infinite',
-                opacity: 0,
-                letterSpacing: '-0.02em',
-                margin: '0 0 8px 0',
+                display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '10px',
+                background: '#0d2818', border: '1px solid rgba(255,255,255,0.1)',
+                borderRadius: '16px', padding: '24px 28px', maxWidth: '360px', width: '100%',
                 fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                textAlign: 'center',
-              }}>VICTOIRE !</h1>
+                boxShadow: '0 10px 40px rgba(0,0,0,0.5)',
+              }}>
+                <div style={{ fontSize: '40px' }}>🔒</div>
+                <h2 style={{
+                  margin: 0, color: '#f8fafc', fontSize: 'clamp(20px, 5vw, 28px)', fontWeight: 800,
+                }}>{t.blocked.title}</h2>
+                <p style={{ margin: 0, color: 'rgba(255,255,255,0.55)', fontSize: '14px', textAlign: 'center' }}>
+                  {t.blocked.text}
+                </p>
+                <p style={{ margin: '4px 0 8px', color: '#fbbf24', fontSize: '18px', fontWeight: 700 }}>
+                  {t.blocked.placed(total)}
+                </p>
+                {[
+                  { label: t.blocked.undo, onClick: undo, enabled: canUndo },
+                  { label: t.blocked.review, onClick: startReplay, enabled: canReplay },
+                  { label: t.blocked.replayDeal, onClick: replayDeal, enabled: true },
+                  { label: t.blocked.newDeal, onClick: restart, enabled: true },
+                ].map(b => (
+                  <button key={b.label} onClick={b.onClick} disabled={!b.enabled} style={{
+                    width: '100%', padding: '10px 16px', borderRadius: '10px',
+                    background: 'rgba(255,255,255,0.08)', color: '#f8fafc',
+                    border: '1px solid rgba(255,255,255,0.15)',
+                    fontSize: '15px', fontWeight: 600, fontFamily: 'inherit',
+                    cursor: b.enabled ? 'pointer' : 'default', opacity: b.enabled ? 1 : 0.4,
+                  }}>{b.label}</button>
+                ))}
+              </div>
+            </div>
+          )}
 
-              {/* Decorative hearts line */}
+          {/* ─── Victory Celebration ─────────────────────────────────── */}
+          {gs.gameOver && !replay && (() => {
+            const hearts = Array.from({ length: 30 }, (_, i) => ({
+              id: i,
+              left: `${Math.random() * 100}%`,
+              delay: `${Math.random() * 4}s`,
+              duration: `${3 + Math.random() * 4}s`,
+              size: `${18 + Math.random() * 28}px`,
+              floatY: `${-200 - Math.random() * 400}px`,
+              rot: `${-30 + Math.random() * 60}deg`,
+              rotEnd: `${-40 + Math.random() * 80}deg`,
+              emoji: ['❤️', '💖', '💕', '💗', '💝', '💘', '🩷', '✨', '🌟', '⭐'][i % 10],
+            }));
+            const confetti = Array.from({ length: 40 }, (_, i) => ({
+              id: i,
+              left: `${Math.random() * 100}%`,
+              delay: `${Math.random() * 3}s`,
+              duration: `${2 + Math.random() * 3}s`,
+              color: ['#ff6b9d', '#c44dff', '#ff4d4d', '#ffd700', '#ff69b4', '#ff1493', '#f59e0b', '#4dffb8'][i % 8],
+              size: `${6 + Math.random() * 8}px`,
+              fallY: `${300 + Math.random() * 400}px`,
+              rot: `${360 + Math.random() * 720}deg`,
+            }));
+            const fireworks = Array.from({ length: 6 }, (_, i) => ({
+              id: i,
+              left: `${15 + Math.random() * 70}%`,
+              top: `${10 + Math.random() * 40}%`,
+              delay: `${i * 0.8 + Math.random() * 0.5}s`,
+              color: ['#ff6b9d', '#ffd700', '#c44dff', '#ff4d4d', '#4dffb8', '#ff69b4'][i],
+            }));
+            return (
+            <div role="dialog" aria-modal="true" aria-label={t.speech.victory} className="fixed inset-0 z-50" style={{
+              animation: 'victory-overlay-in 0.8s ease-out forwards',
+            }}>
+              {/* Dark overlay */}
               <div style={{
-                fontSize: 'clamp(20px, 5vw, 32px)',
-                animation: 'victory-message-in 0.8s 1s ease-out forwards',
-                opacity: 0,
-                marginBottom: '12px',
-              }}>💖✨💖✨💖</div>
+                position: 'absolute', inset: 0,
+                background: 'radial-gradient(ellipse at 50% 50%, rgba(60,0,40,0.85) 0%, rgba(0,0,0,0.92) 100%)',
+                backdropFilter: 'blur(12px)',
+              }} />
+
+              {/* Confetti rain */}
+              {confetti.map(c => (
+                <div key={`conf-${c.id}`} style={{
+                  position: 'absolute', top: -10, left: c.left,
+                  width: c.size, height: c.size,
+                  borderRadius: c.id % 3 === 0 ? '50%' : c.id % 3 === 1 ? '2px' : '0',
+                  background: c.color,
+                  animation: `victory-confetti-fall ${c.duration} ${c.delay} ease-in infinite`,
+                  ['--fall-y' as string]: c.fallY,
+                  ['--conf-rot' as string]: c.rot,
+                  zIndex: 51,
+                }} />
+              ))}
 
-              {/* Main message */}
+              {/* Firework bursts */}
+              {fireworks.map(fw => (
+                <div key={`fw-${fw.id}`} style={{
+                  position: 'absolute', left: fw.left, top: fw.top, zIndex: 52,
+                }}>
+                  {Array.from({ length: 12 }, (_, j) => {
+                    const angle = (j * 30) * Math.PI / 180;
+                    const dist = 40 + Math.random() * 60;
+                    return (
+                      <div key={j} style={{
+                        position: 'absolute',
+                        width: '6px', height: '6px', borderRadius: '50%',
+                        background: fw.color,
+                        boxShadow: `0 0 8px ${fw.color}, 0 0 16px ${fw.color}`,
+                        animation: `victory-spark 1.2s ${fw.delay} ease-out infinite`,
+                        ['--sx' as string]: `${Math.cos(angle) * dist}px`,
+                        ['--sy' as string]: `${Math.sin(angle) * dist}px`,
+                      }} />
+                    );
+                  })}
+                </div>
+              ))}
+
+              {/* Floating hearts */}
+              {hearts.map(h => (
+                <div key={`heart-${h.id}`} style={{
+                  position: 'absolute', bottom: '-20px', left: h.left,
+                  fontSize: h.size, zIndex: 53,
+                  animation: `victory-heart-float ${h.duration} ${h.delay} ease-out infinite`,
+                  ['--float-y' as string]: h.floatY,
+                  ['--rot' as string]: h.rot,
+                  ['--rot-end' as string]: h.rotEnd,
+                  pointerEvents: 'none',
+                }}>{h.emoji}</div>
+              ))}
+
+              {/* Central content */}
               <div style={{
-                animation: 'victory-message-in 0.8s 1.8s ease-out forwards, victory-pulse-glow 2s 2.6s ease-in-out infinite',
-                opacity: 0,
-                textAlign: 'center',
-                maxWidth: '400px',
+                position: 'absolute', inset: 0,
+                display: 'flex', flexDirection: 'column',
+                alignItems: 'center', justifyContent: 'center',
+                zIndex: 54, padding: '20px',
               }}>
-                <p style={{
-                  fontSize: 'clamp(22px, 6vw, 36px)',
-                  fontWeight: 800,
-                  color: '#fff',
-                  margin: '0 0 4px 0',
+                {/* Big trophy/celebration */}
+                <div style={{
+                  fontSize: 'clamp(60px, 15vw, 100px)',
+                  animation: 'victory-title-in 1s ease-out forwards, victory-bounce 2s 1.5s ease-in-out infinite',
+                  opacity: 0,
+                }}>🏆</div>
+
+                {/* VICTOIRE title with shimmer */}
+                <h1 style={{
+                  fontSize: 'clamp(36px, 10vw, 64px)',
+                  fontWeight: 900,
+                  background: 'linear-gradient(90deg, #ffd700, #ff6b9d, #c44dff, #ffd700, #ff6b9d)',
+                  backgroundSize: '200% auto',
+                  WebkitBackgroundClip: 'text',
+                  WebkitTextFillColor: 'transparent',
+                  animation: 'victory-title-in 1s 0.3s ease-out forwards, victory-shimmer 3s 1.3s linear infinite',
+                  opacity: 0,
+                  letterSpacing: '-0.02em',
+                  margin: '0 0 8px 0',
                   fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                  lineHeight: 1.3,
-                }}>Bravo Laurette !</p>
-              </div>
+                  textAlign: 'center',
+                }}>{t.victory.title}</h1>
 
-              {/* Love message */}
-              <div style={{
-                animation: 'victory-message-in 0.8s 2.8s ease-out forwards',
-                opacity: 0,
-                textAlign: 'center',
-                maxWidth: '380px',
-              }}>
-                <p style={{
-                  fontSize: 'clamp(15px, 4vw, 22px)',
-                  fontWeight: 600,
-                  color: '#ff9ec6',
+                {/* Decorative hearts line */}
+                <div style={{
+                  fontSize: 'clamp(20px, 5vw, 32px)',
+                  animation: 'victory-message-in 0.8s 1s ease-out forwards',
+                  opacity: 0,
+                  marginBottom: '12px',
+                }}>💖✨💖✨💖</div>
+
+                {/* Main message */}
+                <div style={{
+                  animation: 'victory-message-in 0.8s 1.8s ease-out forwards, victory-pulse-glow 2s 2.6s ease-in-out infinite',
+                  opacity: 0,
+                  textAlign: 'center',
+                  maxWidth: '400px',
+                }}>
+                  <p style={{
+                    fontSize: 'clamp(22px, 6vw, 36px)',
+                    fontWeight: 800,
+                    color: '#fff',
+                    margin: '0 0 4px 0',
+                    fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                    lineHeight: 1.3,
+                  }}><span aria-hidden="true">{profile.avatar} </span>{t.victory.greeting(player)}</p>
+                </div>
+
+                {/* The player's own message, set in the profiles panel */}
+                {profile.victoryMessage.trim() !== '' && (
+                  <div style={{
+                    animation: 'victory-message-in 0.8s 2.8s ease-out forwards',
+                    opacity: 0,
+                    textAlign: 'center',
+                    maxWidth: '380px',
+                  }}>
+                    <p style={{
+                      fontSize: 'clamp(15px, 4vw, 22px)',
+                      fontWeight: 600,
+                      color: '#ff9ec6',
+                      margin: '8px 0',
+                      fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                      lineHeight: 1.5,
+                      whiteSpace: 'pre-line',
+                      overflowWrap: 'anywhere',
+                    }}>
+                      {profile.victoryMessage.trim()}
+                    </p>
+                  </div>
+                )}
+
+                {/* Heart rain row */}
+                <div style={{
+                  animation: 'victory-message-in 0.8s 3.6s ease-out forwards, victory-rainbow 4s 4.4s linear infinite',
+                  opacity: 0,
+                  fontSize: 'clamp(24px, 6vw, 40px)',
                   margin: '8px 0',
+                }}>
+                  💝💘❤️🩷💖💗💕
+                </div>
+
+                {/* Move counter */}
+                <p style={{
+                  animation: 'victory-message-in 0.8s 4.2s ease-out forwards',
+                  opacity: 0,
+                  color: 'rgba(255,255,255,0.4)',
+                  fontSize: '13px',
+                  margin: '12px 0 16px 0',
                   fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                  lineHeight: 1.5,
                 }}>
-                  Je t&apos;aime 💕<br />
-                  J&apos;ai toujours cru en toi 💗
+                  {t.victory.finished(gs.moves, formatDuration(gs.elapsedMs))}{' '}
+                  <span title={scoreDetail} style={{ color: '#fbbf24', fontWeight: 700 }}>
+                    {t.victory.points(score.total)}
+                  </span>
                 </p>
-              </div>
 
-              {/* Heart rain row */}
-              <div style={{
-                animation: 'victory-message-in 0.8s 3.6s ease-out forwards, victory-rainbow 4s 4.4s linear infinite',
-                opacity: 0,
-                fontSize: 'clamp(24px, 6vw, 40px)',
-                margin: '8px 0',
-              }}>
-                💝💘❤️🩷💖💗💕
+                {/* Replay button — appears last */}
+                <button onClick={restart} style={{
+                  animation: 'victory-btn-in 0.6s 4.8s ease-out forwards',
+                  opacity: 0,
+                  background: 'linear-gradient(135deg, #ff6b9d, #c44dff)',
+                  color: '#fff',
+                  padding: '12px 32px',
+                  borderRadius: '50px',
+                  fontSize: '17px',
+                  fontWeight: 700,
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                  boxShadow: '0 4px 20px rgba(255, 107, 157, 0.4)',
+                  letterSpacing: '0.02em',
+                }}>{t.victory.playAgain}</button>
+                <button onClick={replayDeal} style={{
+                  animation: 'victory-btn-in 0.6s 5s ease-out forwards',
+                  opacity: 0,
+                  background: 'none',
+                  color: 'rgba(255,255,255,0.5)',
+                  marginTop: '10px',
+                  fontSize: '13px',
+                  fontWeight: 600,
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                }}>{t.header.replayDeal} ({t.header.deal(gs.seed)})</button>
+                <button onClick={startReplay} style={{
+                  animation: 'victory-btn-in 0.6s 5.2s ease-out forwards',
+                  opacity: 0,
+                  background: 'none',
+                  color: 'rgba(255,255,255,0.5)',
+                  marginTop: '4px',
+                  fontSize: '13px',
+                  fontWeight: 600,
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+                }}>{t.victory.review}</button>
               </div>
-
-              {/* Move counter */}
-              <p style={{
-                animation: 'victory-message-in 0.8s 4.2s ease-out forwards',
-                opacity: 0,
-                color: 'rgba(255,255,255,0.4)',
-                fontSize: '13px',
-                margin: '12px 0 16px 0',
-                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-              }}>Terminé en {gs.moves} coups</p>
-
-              {/* Replay button — appears last */}
-              <button onClick={restart} style={{
-                animation: 'victory-btn-in 0.6s 4.8s ease-out forwards',
-                opacity: 0,
-                background: 'linear-gradient(135deg, #ff6b9d, #c44dff)',
-                color: '#fff',
-                padding: '12px 32px',
-                borderRadius: '50px',
-                fontSize: '17px',
-                fontWeight: 700,
-                border: 'none',
-                cursor: 'pointer',
-                fontFamily: "'SF Pro Display', -apple-system, sans-serif",
-                boxShadow: '0 4px 20px rgba(255, 107, 157, 0.4)',
-                letterSpacing: '0.02em',
-              }}>Rejouer 🃏</button>
             </div>
-          </div>
-          );
-        })()}
+            );
+          })()}
+        </div>
       </div>
-    </div>
+    </MessagesContext.Provider>
   );
 }
@@ -0,0 +1,156 @@
+import type { Card } from '@/lib/engine';
+
+// ═══════════════════════════════════════════════════════════════════
+// Artwork
+// ═══════════════════════════════════════════════════════════════════
+
+// Drawn on a 40×40 grid in the card's ink (currentColor), so the theme and
+// the four-colour suits apply to them as to the indices.
+
+const rays = (n: number, inner: number, outer: number) =>
+  Array.from({ length: n }, (_, i) => {
+    const a = (i * 2 * Math.PI) / n;
+    return (
+      <line key={i}
+        x1={20 + inner * Math.cos(a)} y1={20 + inner * Math.sin(a)}
+        x2={20 + outer * Math.cos(a)} y2={20 + outer * Math.sin(a)} />
+    );
+  });
+
+// One emblem per atout, from the Petit (1) to the Monde (21)
+const TRUMPS: Record<number, React.ReactNode> = {
+  // Le Petit, a juggler
+  1: <>
+    <circle cx="20" cy="17" r="3.5" />
+    <path d="M14 34 L20 21 L26 34 M12 23 L20 25 L28 23" />
+    <circle cx="10" cy="12" r="2" fill="currentColor" />
+    <circle cx="20" cy="7" r="2" fill="currentColor" />
+    <circle cx="30" cy="12" r="2" fill="currentColor" />
+  </>,
+  2: <path d="M26 7 A13 13 0 1 0 26 33 A10 10 0 1 1 26 7 Z" fill="currentColor" fillOpacity="0.35" />,
+  3: <polygon points="20,5 24,15 35,15 26,22 29,33 20,26 11,33 14,22 5,15 16,15" fill="currentColor" fillOpacity="0.35" />,
+  4: <>
+    <circle cx="20" cy="20" r="7" fill="currentColor" fillOpacity="0.35" />
+    {rays(12, 10, 15)}
+  </>,
+  5: <>
+    <circle cx="20" cy="9" r="3" />
+    <path d="M20 12 L20 33 M13 17 L27 17 M9 25 Q11 33 20 33 Q29 33 31 25" />
+  </>,
+  6: <>
+    <path d="M13 8 Q7 22 15 32 L25 32 Q33 22 27 8 M12 12 L28 12" />
+    <path d="M17 12 L17 32 M20 12 L20 32 M23 12 L23 32" strokeWidth="1" />
+  </>,
+  7: <>
+    <circle cx="12" cy="20" r="6" />
+    <path d="M18 20 L35 20 M30 20 L30 26 M34 20 L34 25" />
+  </>,
+  8: <>
+    <path d="M20 6 L20 33 M14 33 L26 33 M9 11 L31 11" />
+    <path d="M9 11 L5 22 M9 11 L13 22 M31 11 L27 22 M31 11 L35 22" strokeWidth="1" />
+    <path d="M4 22 Q9 28 14 22 Z M26 22 Q31 28 36 22 Z" fill="currentColor" fillOpacity="0.35" />
+  </>,
+  9: <>
+    <path d="M17 12 Q20 5 23 12" />
+    <rect x="13" y="12" width="14" height="19" rx="2" />
+    <path d="M20 16 Q24 21 20 27 Q16 21 20 16 Z" fill="currentColor" />
+  </>,
+  10: <>
+    <circle cx="20" cy="20" r="13" />
+    <circle cx="20" cy="20" r="3" fill="currentColor" />
+    {rays(8, 3, 13)}
+  </>,
+  11: <>
+    <path d="M11 9 L29 9 M11 31 L29 31 M13 12 L27 12 M13 28 L27 28" />
+    <path d="M15 12 L15 28 M20 12 L20 28 M25 12 L25 28" strokeWidth="1.2" />
+  </>,
+  12: <>
+    <path d="M10 6 L30 6 M10 34 L30 34 M13 6 L20 20 L13 34 M27 6 L20 20 L27 34" />
+    <path d="M15 32 L25 32 L20 25 Z M16 10 L24 10 L20 16 Z" fill="currentColor" fillOpacity="0.5" />
+  </>,
+  13: <>
+    <path d="M12 35 L27 6" />
+    <path d="M27 6 Q37 11 35 23 Q32 14 24 11 Z" fill="currentColor" fillOpacity="0.35" />
+  </>,
+  14: <path d="M12 7 L28 7 Q28 20 20 22 Q12 20 12 7 Z M20 22 L20 31 M13 33 L27 33" />,
+  15: <>
+    <path d="M20 5 Q31 16 27 26 Q25 34 20 34 Q12 34 13 24 Q14 16 20 5 Z" fill="currentColor" fillOpacity="0.3" />
+    <path d="M20 18 Q24 24 20 31 Q16 24 20 18 Z" />
+  </>,
+  16: <>
+    <path d="M13 34 L13 12 L27 12 L27 34 Z M13 12 L13 7 L16 7 L16 10 L19 10 L19 7 L21 7 L21 10 L24 10 L24 7 L27 7 L27 12" />
+    <path d="M18 34 L18 28 Q20 25 22 28 L22 34 M15 17 L17 17 M23 17 L25 17" />
+  </>,
+  17: <>
+    <path d="M7 26 L33 26 L28 32 L12 32 Z M20 6 L20 26" />
+    <path d="M21 8 L31 23 L21 23 Z M19 11 L11 23 L19 23 Z" fill="currentColor" fillOpacity="0.35" />
+  </>,
+  18: <>
+    <path d="M12 23 Q5 17 11 11 Q13 4 20 6 Q27 4 29 11 Q35 17 28 23 Z" fill="currentColor" fillOpacity="0.3" />
+    <path d="M20 14 L20 35 M20 24 L15 19 M20 21 L25 16 M14 35 L26 35" />
+  </>,
+  19: <path d="M5 17 Q12 9 20 17 Q28 9 35 17 M11 29 Q15 25 20 29 Q25 25 29 29" />,
+  20: <>
+    <path d="M6 18 L21 18 L33 9 L33 31 L21 22 L6 22 Z" fill="currentColor" fillOpacity="0.3" />
+    <path d="M11 18 L11 14 M16 18 L16 14" />
+  </>,
+  21: <>
+    <circle cx="20" cy="20" r="13" />
+    <ellipse cx="20" cy="20" rx="6" ry="13" />
+    <path d="M7 20 L33 20 M9 13 Q20 16 31 13 M9 27 Q20 24 31 27" strokeWidth="1" />
+  </>,
+};
+
+// The Excuse, a jester's cap with its bells
+const EXCUSE = <>
+  <path d="M9 29 L12 12 L18 24 L20 8 L22 24 L28 12 L31 29 Z" fill="currentColor" fillOpacity="0.3" />
+  <rect x="8" y="29" width="24" height="4" rx="1" />
+  <circle cx="12" cy="10" r="2" fill="currentColor" />
+  <circle cx="20" cy="6" r="2" fill="currentColor" />
+  <circle cx="28" cy="10" r="2" fill="currentColor" />
+</>;
+
+// Valet, Cavalier, Dame and Roi
+const COURTS: Record<number, React.ReactNode> = {
+  // A feathered cap
+  11: <>
+    <path d="M8 26 Q20 12 32 26 Z" fill="currentColor" fillOpacity="0.3" />
+    <path d="M5 26 L35 26 M24 18 Q31 7 36 4 Q31 13 27 20" />
+  </>,
+  // A horse's head
+  12: <>
+    <path d="M13 35 L13 27 Q8 22 11 17 L18 7 L20 11 Q29 11 31 21 L31 35 Z" fill="currentColor" fillOpacity="0.3" />
+    <circle cx="22" cy="16" r="1.2" fill="currentColor" />
+    <path d="M20 11 Q15 16 18 22 M13 27 L17 25" />
+  </>,
+  // A fan
+  13: <>
+    <path d="M20 33 L5 17 A17 17 0 0 1 35 17 Z" fill="currentColor" fillOpacity="0.3" />
+    <path d="M20 33 L12 9 M20 33 L20 6 M20 33 L28 9" strokeWidth="1" />
+  </>,
+  // A crown
+  14: <>
+    <path d="M8 29 L8 13 L14 20 L20 9 L26 20 L32 13 L32 29 Z" fill="currentColor" fillOpacity="0.3" />
+    <path d="M8 25 L32 25" />
+    <circle cx="20" cy="9" r="1.8" fill="currentColor" />
+  </>,
+};
+
+export function hasArt(card: Card): boolean {
+  return card.kind !== 'suit' || card.value > 10;
+}
+
+// The artwork in the middle of an illustrated face, or null for the pip
+// cards, which have none.
+export default function CardArt({ card, style }: { card: Card; style?: React.CSSProperties }) {
+  const art = card.kind === 'excuse' ? EXCUSE
+    : card.kind === 'trump' ? TRUMPS[card.value]
+    : COURTS[card.value];
+  if (!art) return null;
+  return (
+    <svg viewBox="0 0 40 40" aria-hidden="true" className="card-art" style={style}
+      fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      {art}
+    </svg>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import Panel from './Panel';
+import type { CheatLabel } from './StatsPanel';
+import { formatDay, leaderboard } from '@/lib/daily';
+import type { DailyResult } from '@/lib/daily';
+import { useMessages } from '@/lib/i18n';
+import { formatDuration } from '@/lib/score';
+
+export type DailyStatus = 'available' | 'in-progress' | 'played';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px', borderRadius: '8px', cursor: 'pointer',
+  fontSize: '13px', fontWeight: 600, fontFamily: 'inherit',
+};
+
+export default function DailyPanel({ days, results, status, profileId, cheats, onPlay, onReplay, onClose }: {
+  // Most recent first; days[0] is today
+  days: string[];
+  results: DailyResult[];
+  status: DailyStatus;
+  // The player's own results are in bold
+  profileId: string;
+  cheats: CheatLabel[];
+  onPlay: () => void;
+  onReplay: (day: string) => void;
+  onClose: () => void;
+}) {
+  const t = useMessages();
+  const [day, setDay] = useState(days[0]);
+  const isToday = day === days[0];
+  const rows = leaderboard(results, day);
+  const cheatName = (id: string) => cheats.find(c => c.id === id)?.name ?? id;
+
+  return (
+    <Panel title={t.daily.title} onClose={onClose}>
+      <p style={{ margin: '0 0 10px', fontSize: '13px', color: 'rgba(255,255,255,0.6)' }}>
+        {t.daily.intro}
+      </p>
+
+      <button
+        onClick={onPlay} disabled={status === 'played'}
+        style={{
+          ...buttonStyle, width: '100%',
+          background: status === 'played' ? 'rgba(255,255,255,0.06)' : 'linear-gradient(135deg, #b45309, #d97706)',
+          color: status === 'played' ? 'rgba(255,255,255,0.4)' : '#fff7ed',
+          border: '1px solid rgba(245,158,11,0.5)',
+          cursor: status === 'played' ? 'default' : 'pointer',
+        }}
+      >
+        {status === 'played' ? t.daily.played
+          : status === 'in-progress' ? t.daily.resume : t.daily.play}
+      </button>
+
+      <div className="flex items-center" style={{ gap: '8px', margin: '16px 0 6px' }}>
+        <select value={day} onChange={e => setDay(e.target.value)} aria-label={t.daily.day} style={{
+          flex: 1, padding: '4px 8px', borderRadius: '6px', background: '#1f2937', color: 'inherit',
+          border: '1px solid rgba(255,255,255,0.15)', fontFamily: 'inherit', fontSize: '13px',
+        }}>
+          {days.map((d, i) => <option key={d} value={d}>{i === 0 ? t.daily.today(formatDay(d, t.dateLocale)) : formatDay(d, t.dateLocale)}</option>)}
+        </select>
+        {(!isToday || status === 'played') && (
+          <button onClick={() => onReplay(day)} title={t.daily.replayTitle} style={{
+            ...buttonStyle, padding: '4px 10px',
+            background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.75)',
+            border: '1px solid rgba(255,255,255,0.15)',
+          }}>{t.daily.replay}</button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p style={{ margin: '8px 0', fontSize: '13px', color: 'rgba(255,255,255,0.45)' }}>
+          {t.daily.noResults}
+        </p>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+          <thead>
+            <tr style={{ color: 'rgba(255,255,255,0.5)', textAlign: 'left' }}>
+              <th style={{ padding: '3px 4px' }}>#</th>
+              <th style={{ padding: '3px 4px' }}>{t.daily.player}</th>
+              <th style={{ padding: '3px 4px' }}>{t.daily.cards}</th>
+              <th style={{ padding: '3px 4px' }}>{t.daily.moves}</th>
+              <th style={{ padding: '3px 4px' }}>{t.daily.time}</th>
+              <th style={{ padding: '3px 4px' }}>{t.daily.cheats}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => (
+              <tr key={`${r.profileId}:${r.player}`} style={{ borderTop: '1px solid rgba(255,255,255,0.08)' }}>
+                <td style={{ padding: '3px 4px' }}>{i + 1}</td>
+                <td style={{ padding: '3px 4px', fontWeight: r.profileId === profileId ? 700 : 400 }}>
+                  {r.player}{r.won ? ' 🏆' : ''}
+                </td>
+                <td style={{ padding: '3px 4px' }}>{r.placed}/78</td>
+                <td style={{ padding: '3px 4px' }}>{r.moves}</td>
+                <td style={{ padding: '3px 4px', fontVariantNumeric: 'tabular-nums' }}>{formatDuration(r.elapsedMs)}</td>
+                <td style={{ padding: '3px 4px', color: 'rgba(255,255,255,0.6)' }}>
+                  {r.cheats.length === 0 ? '—' : r.cheats.map(cheatName).join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Panel>
+  );
+}
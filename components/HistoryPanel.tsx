@@ -0,0 +1,113 @@
+// The actions of the game so far, in move notation, folded away under the
+// board. The game can be copied or downloaded as text, and a game written
+// that way can be pasted back in to resume from the same position.
+
+import { useMemo, useState } from 'react';
+import { describeActions, formatRecord } from '@/lib/engine';
+import type { GameRecord } from '@/lib/engine';
+import { useMessages } from '@/lib/i18n';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px', borderRadius: '6px', cursor: 'pointer',
+  background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.7)',
+  border: '1px solid rgba(255,255,255,0.12)',
+  fontSize: '12px', fontWeight: 600, fontFamily: 'inherit',
+};
+
+export default function HistoryPanel({ record, onImport }: {
+  record: GameRecord;
+  // Returns an error message, or null once the game is loaded
+  onImport: (text: string) => string | null;
+}) {
+  const t = useMessages();
+  const [open, setOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const entries = useMemo(() => (open ? describeActions(record) : []), [open, record]);
+
+  const copy = () => {
+    navigator.clipboard.writeText(formatRecord(record)).then(
+      () => setMessage({ text: t.history.copied, error: false }),
+      () => setMessage({ text: t.history.noClipboard, error: true }),
+    );
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([formatRecord(record)], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `reussite-${record.seed}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const load = () => {
+    const error = onImport(importText);
+    if (error) setMessage({ text: error, error: true });
+    else {
+      setImportText('');
+      setMessage({ text: t.history.loaded, error: false });
+    }
+  };
+
+  return (
+    <div onClick={e => e.stopPropagation()} style={{
+      margin: '6px auto 0', maxWidth: '560px', borderRadius: '10px',
+      background: 'rgba(0,0,0,0.25)', border: '1px solid rgba(255,255,255,0.08)',
+      color: 'rgba(255,255,255,0.8)',
+      fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontSize: '12px',
+    }}>
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} style={{
+        width: '100%', display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+        padding: '6px 12px', background: 'none', border: 'none', cursor: 'pointer',
+        color: 'rgba(255,255,255,0.6)', fontSize: '12px', fontWeight: 700, fontFamily: 'inherit',
+      }}>
+        <span>{t.history.title(record.actions.length)}</span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div style={{ padding: '0 12px 10px' }}>
+          {entries.length === 0 ? (
+            <p style={{ margin: '4px 0', color: 'rgba(255,255,255,0.4)' }}>{t.history.empty}</p>
+          ) : (
+            <ol style={{
+              margin: 0, padding: '4px 0 4px 32px', maxHeight: '160px', overflowY: 'auto',
+              fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontSize: '12px',
+              columnWidth: '130px',
+            }}>
+              {entries.map((text, i) => <li key={i}>{text}</li>)}
+            </ol>
+          )}
+
+          <div className="flex flex-wrap" style={{ gap: '6px', marginTop: '8px' }}>
+            <button onClick={copy} style={buttonStyle}>{t.history.copy}</button>
+            <button onClick={download} style={buttonStyle}>{t.history.download}</button>
+          </div>
+
+          <textarea
+            value={importText}
+            onChange={e => setImportText(e.target.value)}
+            placeholder={t.history.placeholder}
+            rows={3}
+            style={{
+              width: '100%', marginTop: '8px', padding: '6px 8px', borderRadius: '6px', resize: 'vertical',
+              background: 'rgba(255,255,255,0.05)', color: 'inherit',
+              border: '1px solid rgba(255,255,255,0.12)',
+              fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontSize: '12px',
+            }}
+          />
+          <div className="flex items-center" style={{ gap: '8px', marginTop: '4px' }}>
+            <button onClick={load} disabled={importText.trim() === ''}
+              style={{ ...buttonStyle, opacity: importText.trim() === '' ? 0.4 : 1 }}>
+              {t.history.load}
+            </button>
+            {message && (
+              <span style={{ color: message.error ? '#fca5a5' : '#6ee7b7' }}>{message.text}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
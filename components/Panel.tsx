@@ -0,0 +1,52 @@
+// A centred modal sheet over the board, closed with its ✕ button, by
+// clicking outside it or with Escape.
+
+import { useEffect } from 'react';
+import { useMessages } from '@/lib/i18n';
+
+export default function Panel({ title, onClose, children }: {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}) {
+  const t = useMessages();
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center"
+      style={{
+        zIndex: 1500, padding: '16px',
+        background: 'rgba(0,0,0,0.6)', backdropFilter: 'blur(4px)',
+        animation: 'victory-overlay-in 0.2s ease-out forwards',
+      }}
+      onClick={(e) => { e.stopPropagation(); onClose(); }}
+    >
+      <div
+        role="dialog" aria-modal="true" aria-label={title}
+        onClick={e => e.stopPropagation()}
+        style={{
+          width: '100%', maxWidth: '420px', maxHeight: '90vh', overflowY: 'auto',
+          background: '#0d2818', border: '1px solid rgba(255,255,255,0.1)',
+          borderRadius: '14px', padding: '16px 18px',
+          boxShadow: '0 10px 40px rgba(0,0,0,0.5)',
+          color: '#f8fafc',
+          fontFamily: "'SF Pro Display', -apple-system, sans-serif",
+        }}
+      >
+        <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+          <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 800, letterSpacing: '-0.01em' }}>{title}</h2>
+          <button onClick={onClose} aria-label={t.close} style={{
+            background: 'none', border: 'none', color: 'rgba(255,255,255,0.5)',
+            fontSize: '18px', cursor: 'pointer', padding: '2px 6px',
+          }}>✕</button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
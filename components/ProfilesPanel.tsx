@@ -0,0 +1,112 @@
+import Panel from './Panel';
+import { useMessages } from '@/lib/i18n';
+import { AVATARS, MAX_PLAYER_NAME, MAX_VICTORY_MESSAGE, profileName } from '@/lib/profiles';
+import type { Profile, Profiles } from '@/lib/profiles';
+
+const headingStyle: React.CSSProperties = {
+  margin: '0 0 6px', fontSize: '13px', fontWeight: 700, color: 'rgba(255,255,255,0.7)',
+};
+
+const fieldStyle: React.CSSProperties = {
+  padding: '4px 8px', borderRadius: '6px',
+  background: 'rgba(255,255,255,0.06)', color: 'inherit',
+  border: '1px solid rgba(255,255,255,0.15)', fontFamily: 'inherit', fontSize: '13px',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px', borderRadius: '8px', cursor: 'pointer',
+  fontSize: '13px', fontWeight: 600, fontFamily: 'inherit',
+};
+
+// The active profile is edited in place; choosing another one switches to it.
+export default function ProfilesPanel({ profiles, onSwitch, onChange, onAdd, onRemove, onClose }: {
+  profiles: Profiles;
+  onSwitch: (id: string) => void;
+  onChange: (change: Partial<Omit<Profile, 'id'>>) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}) {
+  const t = useMessages();
+  const active = profiles.list.find(p => p.id === profiles.active) ?? profiles.list[0];
+
+  return (
+    <Panel title={t.profiles.title} onClose={onClose}>
+      <p style={{ margin: '0 0 10px', fontSize: '13px', color: 'rgba(255,255,255,0.6)' }}>
+        {t.profiles.intro}
+      </p>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginBottom: '8px' }}>
+        {profiles.list.map(p => {
+          const current = p.id === active.id;
+          return (
+            <button
+              key={p.id} onClick={() => onSwitch(p.id)} aria-pressed={current}
+              title={current ? undefined : t.profiles.play(profileName(p))}
+              style={{
+                ...buttonStyle, display: 'flex', gap: '8px', alignItems: 'center', textAlign: 'left',
+                padding: '6px 8px', color: 'inherit', cursor: current ? 'default' : 'pointer',
+                background: current ? 'rgba(245,158,11,0.12)' : 'rgba(255,255,255,0.03)',
+                border: `1px solid ${current ? 'rgba(245,158,11,0.4)' : 'rgba(255,255,255,0.08)'}`,
+              }}
+            >
+              <span aria-hidden="true" style={{ fontSize: '18px' }}>{p.avatar}</span>
+              <span style={{ flex: 1 }}>{profileName(p)}</span>
+              {current && (
+                <span style={{ fontSize: '11px', fontWeight: 500, color: '#fbbf24' }}>{t.profiles.current}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <button onClick={onAdd} style={{
+        ...buttonStyle, width: '100%',
+        background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.75)',
+        border: '1px solid rgba(255,255,255,0.15)',
+      }}>＋ {t.profiles.add}</button>
+
+      <h3 style={{ ...headingStyle, marginTop: '16px' }}>{t.profiles.name}</h3>
+      <input
+        value={active.name} maxLength={MAX_PLAYER_NAME} aria-label={t.profiles.name}
+        onChange={e => onChange({ name: e.target.value })}
+        style={{ ...fieldStyle, width: '100%' }}
+      />
+
+      <h3 style={{ ...headingStyle, marginTop: '16px' }}>{t.profiles.avatar}</h3>
+      <div role="radiogroup" aria-label={t.profiles.avatar} style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+        {AVATARS.map(a => {
+          const checked = active.avatar === a;
+          return (
+            <button
+              key={a} role="radio" aria-checked={checked} onClick={() => onChange({ avatar: a })}
+              style={{
+                width: '36px', height: '36px', borderRadius: '8px', fontSize: '20px', cursor: 'pointer',
+                background: checked ? 'rgba(245,158,11,0.12)' : 'rgba(255,255,255,0.03)',
+                border: `1px solid ${checked ? 'rgba(245,158,11,0.4)' : 'rgba(255,255,255,0.08)'}`,
+              }}
+            >{a}</button>
+          );
+        })}
+      </div>
+
+      <h3 style={{ ...headingStyle, marginTop: '16px' }}>{t.profiles.victoryMessage}</h3>
+      <textarea
+        value={active.victoryMessage} maxLength={MAX_VICTORY_MESSAGE} rows={3}
+        aria-label={t.profiles.victoryMessage} placeholder={t.profiles.victoryPlaceholder}
+        onChange={e => onChange({ victoryMessage: e.target.value })}
+        style={{ ...fieldStyle, width: '100%', resize: 'vertical' }}
+      />
+
+      {profiles.list.length > 1 && (
+        <button
+          onClick={() => { if (window.confirm(t.profiles.confirmRemove(profileName(active)))) onRemove(active.id); }}
+          style={{
+            ...buttonStyle, width: '100%', marginTop: '16px',
+            background: 'rgba(239,68,68,0.1)', color: '#fca5a5',
+            border: '1px solid rgba(239,68,68,0.35)',
+          }}
+        >{t.profiles.remove}</button>
+      )}
+    </Panel>
+  );
+}
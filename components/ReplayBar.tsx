@@ -0,0 +1,65 @@
+// Controls shown under the board while a game is replayed: step through the
+// actions, play them back at a few speeds, or pick the game up from the
+// position on screen.
+
+import { useMessages } from '@/lib/i18n';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 8px', borderRadius: '6px', cursor: 'pointer',
+  background: 'rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.75)',
+  border: '1px solid rgba(255,255,255,0.12)',
+  fontSize: '12px', fontWeight: 700, fontFamily: 'inherit',
+};
+
+export default function ReplayBar({ step, steps, playing, speed, onStep, onTogglePlay, onSpeed, onResume, onClose }: {
+  step: number;
+  // Number of actions: steps go from 0 (the deal) to `steps`
+  steps: number;
+  playing: boolean;
+  speed: number;
+  onStep: (step: number) => void;
+  onTogglePlay: () => void;
+  onSpeed: (speed: number) => void;
+  onResume: () => void;
+  onClose: () => void;
+}) {
+  const t = useMessages();
+  const controls = [
+    { label: '⏮', title: t.replay.start, onClick: () => onStep(0), enabled: step > 0 },
+    { label: '◀', title: t.replay.previous, onClick: () => onStep(step - 1), enabled: step > 0 },
+    { label: playing ? '⏸' : '▶', title: playing ? t.replay.pause : t.replay.play, onClick: onTogglePlay, enabled: true },
+    { label: '▶▶', title: t.replay.next, onClick: () => onStep(step + 1), enabled: step < steps },
+    { label: '⏭', title: t.replay.end, onClick: () => onStep(steps), enabled: step < steps },
+  ];
+
+  return (
+    <div onClick={e => e.stopPropagation()} style={{
+      display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', gap: '6px',
+      margin: '6px auto 0', padding: '6px 10px', borderRadius: '10px',
+      background: 'rgba(0,0,0,0.3)', border: '1px solid rgba(255,255,255,0.1)',
+      color: 'rgba(255,255,255,0.75)',
+      fontFamily: "'SF Pro Display', -apple-system, sans-serif", fontSize: '12px',
+    }}>
+      <span style={{ fontWeight: 700, color: '#fbbf24' }}>{t.replay.title}</span>
+      {controls.map(c => (
+        <button key={c.title} onClick={c.onClick} disabled={!c.enabled} title={c.title} aria-label={c.title}
+          style={{ ...buttonStyle, opacity: c.enabled ? 1 : 0.35, cursor: c.enabled ? 'pointer' : 'default' }}>
+          {c.label}
+        </button>
+      ))}
+      <input type="range" min={0} max={steps} value={step} aria-label={t.replay.position}
+        onChange={e => onStep(Number(e.target.value))} style={{ width: '120px' }} />
+      <span style={{ fontVariantNumeric: 'tabular-nums', minWidth: '64px' }}>{step} / {steps}</span>
+      <select value={speed} onChange={e => onSpeed(Number(e.target.value))} aria-label={t.replay.speed}
+        style={{ ...buttonStyle, background: '#1f2937', fontWeight: 600 }}>
+        {SPEEDS.map(s => <option key={s} value={s}>×{s}</option>)}
+      </select>
+      <button onClick={onResume} style={{ ...buttonStyle, background: 'rgba(16,185,129,0.2)', color: '#6ee7b7' }}>
+        {t.replay.resume}
+      </button>
+      <button onClick={onClose} style={buttonStyle}>{t.replay.quit}</button>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import Panel from './Panel';
+import { DIFFICULTIES, VARIANTS } from '@/lib/engine';
+import { LOCALES, useMessages } from '@/lib/i18n';
+import type { Settings } from '@/lib/settings';
+import type { SoundSettings } from '@/lib/sound';
+import { CARD_BACKS, FELTS, findTheme, THEMES } from '@/lib/themes';
+
+const headingStyle: React.CSSProperties = {
+  margin: '0 0 6px', fontSize: '13px', fontWeight: 700, color: 'rgba(255,255,255,0.7)',
+};
+
+const optionStyle = (checked: boolean): React.CSSProperties => ({
+  display: 'flex', gap: '6px', alignItems: 'center', cursor: 'pointer',
+  padding: '6px 8px', borderRadius: '8px', fontSize: '13px', fontWeight: 600,
+  background: checked ? 'rgba(245,158,11,0.12)' : 'rgba(255,255,255,0.03)',
+  border: `1px solid ${checked ? 'rgba(245,158,11,0.4)' : 'rgba(255,255,255,0.08)'}`,
+});
+
+export default function SettingsPanel({ settings, sound, gameVariant, onChange, onSoundChange, onNewDeal, onClose }: {
+  settings: Settings;
+  sound: SoundSettings;
+  // Id of the variant the current game is played under
+  gameVariant: string;
+  onChange: (change: Partial<Settings>) => void;
+  onSoundChange: (change: Partial<SoundSettings>) => void;
+  onNewDeal: () => void;
+  onClose: () => void;
+}) {
+  const t = useMessages();
+  return (
+    <Panel title={t.settings.title} onClose={onClose}>
+      <h3 style={headingStyle}>{t.settings.language}</h3>
+      <div role="radiogroup" aria-label={t.settings.language} style={{ display: 'flex', gap: '4px', marginBottom: '16px' }}>
+        {LOCALES.map(l => {
+          const checked = settings.locale === l.id;
+          return (
+            <label key={l.id} lang={l.id} style={{
+              flex: 1, display: 'flex', gap: '6px', alignItems: 'center', justifyContent: 'center',
+              cursor: 'pointer', padding: '6px 8px', borderRadius: '8px', fontSize: '13px', fontWeight: 600,
+              background: checked ? 'rgba(245,158,11,0.12)' : 'rgba(255,255,255,0.03)',
+              border: `1px solid ${checked ? 'rgba(245,158,11,0.4)' : 'rgba(255,255,255,0.08)'}`,
+            }}>
+              <input type="radio" name="locale" checked={checked} onChange={() => onChange({ locale: l.id })} />
+              {l.name}
+            </label>
+          );
+        })}
+      </div>
+
+      <h3 style={headingStyle}>{t.settings.rules}</h3>
+      <p style={{ margin: '0 0 8px', fontSize: '12px', color: 'rgba(255,255,255,0.5)' }}>
+        {t.settings.rulesNote}
+      </p>
+      <div role="radiogroup" aria-label={t.settings.rules} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        {VARIANTS.map(v => {
+          const checked = settings.variant === v.id;
+          const text = t.variant(v);
+          return (
+            <label key={v.id} style={{
+              display: 'flex', gap: '8px', alignItems: 'flex-start', cursor: 'pointer',
+              padding: '6px 8px', borderRadius: '8px',
+              background: checked ? 'rgba(245,158,11,0.12)' : 'rgba(255,255,255,0.03)',
+              border: `1px solid ${checked ? 'rgba(245,158,11,0.4)' : 'rgba(255,255,255,0.08)'}`,
+            }}>
+              <input type="radio" name="variant" checked={checked} onChange={() => onChange({ variant: v.id })}
+                style={{ marginTop: '3px' }} />
+              <span style={{ display: 'flex', flexDirection: 'column', gap: '1px' }}>
+                <span style={{ fontSize: '13px', fontWeight: 600 }}>
+                  {text.name}
+                  {v.id === gameVariant && (
+                    <span style={{ marginLeft: '6px', fontSize: '11px', fontWeight: 500, color: '#fbbf24' }}>
+                      {t.settings.currentGame}
+                    </span>
+                  )}
+                </span>
+                <span style={{ fontSize: '12px', color: 'rgba(255,255,255,0.55)' }}>{text.description}</span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+      {settings.variant !== gameVariant && (
+        <button onClick={onNewDeal} style={{
+          marginTop: '10px', width: '100%', padding: '8px 12px', borderRadius: '8px',
+          background: 'linear-gradient(135deg, #b45309, #d97706)', color: '#fff7ed',
+          border: '1px solid rgba(245,158,11,0.5)', cursor: 'pointer',
+          fontSize: '13px', fontWeight: 600, fontFamily: 'inherit',
+        }}>{t.settings.newDeal}</button>
+      )}
+
+      <h3 style={{ ...headingStyle, marginTop: '16px' }}>{t.settings.difficulty}</h3>
+      <div role="radiogroup" aria-label={t.settings.difficulty} style={{ display: 'flex', gap: '4px' }}>
+        {DIFFICULTIES.map(d => {
+          const checked = settings.difficulty === d.id;
+          return (
+            <label key={d.id} title={t.difficulty(d.id).description} style={{
+              flex: 1, display: 'flex', gap: '6px', alignItems: 'center', justifyContent: 'center',
+              cursor: 'pointer', padding: '6px 8px', borderRadius: '8px', fontSize: '13px', fontWeight: 600,
+              background: checked ? 'rgba(245,158,11,0.12)' : 'rgba(255,255,255,0.03)',
+              border: `1px solid ${checked ? 'rgba(245,158,11,0.4)' : 'rgba(255,255,255,0.08)'}`,
+            }}>
+              <input type="radio" name="difficulty" checked={checked} onChange={() => onChange({ difficulty: d.id })} />
+              {t.difficulty(d.id).name}
+            </label>
+          );
+        })}
+      </div>
+      <p style={{ margin: '6px 0 0', fontSize: '12px', color: 'rgba(255,255,255,0.55)' }}>
+        {t.difficulty(settings.difficulty).description}
+      </p>
+
+      <h3 style={{ ...headingStyle, marginTop: '16px' }}>{t.settings.game}</h3>
+      <label className="flex items-center" style={{ gap: '8px', fontSize: '13px', cursor: 'pointer' }}>
+        <input type="checkbox" checked={settings.autoCollect}
+          onChange={e => onChange({ autoCollect: e.target.checked })} />
+        {t.settings.autoCollect}
+      </label>
+
+      <h3 style={{ ...headingStyle, marginTop: '16px' }}>{t.settings.appearance}</h3>
+      <div role="radiogroup" aria-label={t.settings.theme} style={{ display: 'flex', gap: '4px' }}>
+        {THEMES.map(th => {
+          const checked = settings.theme === th.id;
+          return (
+            <label key={th.id} title={t.theme(th).description}
+              style={{ ...optionStyle(checked), flex: 1, justifyContent: 'center' }}>
+              <input type="radio" name="theme" checked={checked} onChange={() => onChange({ theme: th.id })} />
+              {t.theme(th).name}
+            </label>
+          );
+        })}
+      </div>
+      <p style={{ margin: '6px 0 0', fontSize: '12px', color: 'rgba(255,255,255,0.55)' }}>
+        {t.theme(findTheme(settings.theme)!).description}
+      </p>
+
+      <p style={{ margin: '10px 0 4px', fontSize: '12px', color: 'rgba(255,255,255,0.55)' }}>{t.settings.felt}</p>
+      {findTheme(settings.theme)?.table ? (
+        <p style={{ margin: 0, fontSize: '12px', color: 'rgba(255,255,255,0.4)' }}>{t.settings.ownTable}</p>
+      ) : (
+        <div role="radiogroup" aria-label={t.settings.felt} style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+          {FELTS.map(f => {
+            const checked = settings.felt === f.id;
+            return (
+              <label key={f.id} style={optionStyle(checked)}>
+                <input type="radio" name="felt" checked={checked} onChange={() => onChange({ felt: f.id })} />
+                <span aria-hidden="true" style={{
+                  width: '16px', height: '16px', borderRadius: '50%', border: '1px solid rgba(255,255,255,0.2)',
+                  background: settings.theme === 'clair' ? f.light.felt : f.dark.felt,
+                }} />
+                {t.felt(f)}
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <p style={{ margin: '10px 0 4px', fontSize: '12px', color: 'rgba(255,255,255,0.55)' }}>{t.settings.cardBack}</p>
+      <div role="radiogroup" aria-label={t.settings.cardBack} style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+        {CARD_BACKS.map(b => {
+          const checked = settings.cardBack === b.id;
+          return (
+            <label key={b.id} style={optionStyle(checked)}>
+              <input type="radio" name="cardBack" checked={checked} onChange={() => onChange({ cardBack: b.id })} />
+              <span aria-hidden="true" style={{
+                width: '16px', height: '22px', borderRadius: '2px', border: `1px solid ${b.edge}`,
+                background: `${b.pattern}, ${b.background}`,
+              }} />
+              {t.cardBack(b)}
+            </label>
+          );
+        })}
+      </div>
+
+      <label className="flex items-center" style={{ gap: '8px', fontSize: '13px', cursor: 'pointer', marginTop: '10px' }}>
+        <input type="checkbox" checked={settings.fourColours}
+          onChange={e => onChange({ fourColours: e.target.checked })} />
+        {t.settings.fourColours}
+      </label>
+
+      <h3 style={{ ...headingStyle, marginTop: '16px' }}>{t.settings.sound}</h3>
+      <p style={{ margin: '0 0 8px', fontSize: '12px', color: 'rgba(255,255,255,0.5)' }}>
+        {t.settings.soundNote}
+      </p>
+      <label className="flex items-center" style={{ gap: '8px', fontSize: '13px', cursor: 'pointer' }}>
+        <input type="checkbox" checked={sound.muted}
+          onChange={e => onSoundChange({ muted: e.target.checked })} />
+        {t.settings.mute}
+      </label>
+      <label className="flex items-center" style={{
+        gap: '8px', fontSize: '13px', marginTop: '8px', opacity: sound.muted ? 0.5 : 1,
+      }}>
+        {t.settings.volume}
+        <input type="range" min={0} max={100} step={5} value={Math.round(sound.volume * 100)}
+          disabled={sound.muted} onChange={e => onSoundChange({ volume: Number(e.target.value) / 100 })}
+          style={{ flex: 1 }} />
+        <span style={{ width: '3em', textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>
+          {Math.round(sound.volume * 100)} %
+        </span>
+      </label>
+    </Panel>
+  );
+}
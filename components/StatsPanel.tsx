@@ -0,0 +1,87 @@
+import Panel from './Panel';
+import { VARIANTS } from '@/lib/engine';
+import { useMessages } from '@/lib/i18n';
+import { averagePlacedOnLosses, winRate } from '@/lib/stats';
+import type { PlayerStats } from '@/lib/stats';
+
+export interface CheatLabel {
+  id: string;
+  name: string;
+}
+
+function Figure({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{
+      background: 'rgba(255,255,255,0.05)', borderRadius: '10px', padding: '8px 10px',
+      display: 'flex', flexDirection: 'column', gap: '2px',
+    }}>
+      <span style={{ fontSize: '20px', fontWeight: 800, color: '#fbbf24' }}>{value}</span>
+      <span style={{ fontSize: '11px', color: 'rgba(255,255,255,0.5)', fontWeight: 500 }}>{label}</span>
+    </div>
+  );
+}
+
+export default function StatsPanel({ stats, cheats, onReset, onClose }: {
+  stats: PlayerStats;
+  cheats: CheatLabel[];
+  onReset: () => void;
+  onClose: () => void;
+}) {
+  const t = useMessages();
+  const avgPlaced = averagePlacedOnLosses(stats);
+  return (
+    <Panel title={t.stats.title} onClose={onClose}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px' }}>
+        <Figure label={t.stats.played} value={String(stats.played)} />
+        <Figure label={t.stats.won} value={String(stats.won)} />
+        <Figure label={t.stats.winRate} value={`${Math.round(winRate(stats) * 100)} %`} />
+        <Figure label={t.stats.currentStreak} value={String(stats.currentStreak)} />
+        <Figure label={t.stats.bestStreak} value={String(stats.bestStreak)} />
+        <Figure label={t.stats.fewestMoves} value={stats.fewestMoves === null ? '—' : t.stats.moves(stats.fewestMoves)} />
+        <Figure label={t.stats.wonClean} value={String(stats.won - stats.wonWithCheats)} />
+        <Figure label={t.stats.wonWithCheats} value={String(stats.wonWithCheats)} />
+        <Figure label={t.stats.placedOnLosses} value={avgPlaced === null ? '—' : `${avgPlaced.toFixed(1)} / 78`} />
+      </div>
+
+      <h3 style={{ margin: '14px 0 6px', fontSize: '13px', fontWeight: 700, color: 'rgba(255,255,255,0.7)' }}>
+        {t.stats.cheatsUsed}
+      </h3>
+      <ul style={{ margin: 0, padding: 0, listStyle: 'none', fontSize: '13px' }}>
+        {cheats.map(c => (
+          <li key={c.id} className="flex justify-between" style={{ padding: '3px 0' }}>
+            <span>{c.name}</span>
+            <span style={{ color: 'rgba(255,255,255,0.6)' }}>{t.stats.times(stats.cheatsUsed[c.id] ?? 0)}</span>
+          </li>
+        ))}
+      </ul>
+
+      {VARIANTS.some(v => stats.byVariant[v.id]) && (
+        <>
+          <h3 style={{ margin: '14px 0 6px', fontSize: '13px', fontWeight: 700, color: 'rgba(255,255,255,0.7)' }}>
+            {t.stats.byVariant}
+          </h3>
+          <ul style={{ margin: 0, padding: 0, listStyle: 'none', fontSize: '13px' }}>
+            {VARIANTS.filter(v => stats.byVariant[v.id]).map(v => (
+              <li key={v.id} className="flex justify-between" style={{ padding: '3px 0' }}>
+                <span>{t.variant(v).name}</span>
+                <span style={{ color: 'rgba(255,255,255,0.6)' }}>
+                  {t.stats.variantWins(stats.byVariant[v.id].won, stats.byVariant[v.id].played)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <button
+        onClick={() => { if (window.confirm(t.stats.confirmReset)) onReset(); }}
+        style={{
+          marginTop: '16px', width: '100%', padding: '8px 12px', borderRadius: '8px',
+          background: 'rgba(220,38,38,0.15)', color: '#fca5a5',
+          border: '1px solid rgba(220,38,38,0.4)', cursor: 'pointer',
+          fontSize: '13px', fontWeight: 600, fontFamily: 'inherit',
+        }}
+      >{t.stats.reset}</button>
+    </Panel>
+  );
+}
@@ -0,0 +1,110 @@
+import { distributionTargets } from './engine';
+import type { GameAction, GameState } from './engine';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+// What a cheat does once its animation is over (and its target picked):
+// 'reveal' shows some hidden cards for a while without changing the game,
+// 'steps' plays actions one at a time at the player's pace, until they stop.
+export type CheatEffect =
+  | { kind: 'reveal'; cardIds: string[]; ms: number }
+  | { kind: 'steps'; actions: GameAction[] };
+
+export interface Cheat {
+  id: string;
+  name: string;
+  icon: string;
+  // Shouted across the screen while the activation animation plays
+  shout: string;
+  animationMs: number;
+  colors: {
+    // Button background
+    gradient: string;
+    text: string;
+    // 'r, g, b' of the glows, flashes and outlines
+    accent: string;
+  };
+  // Uses allowed per game
+  limit: number;
+  // Whether the cheat can do anything in this position
+  available: (gs: GameState) => boolean;
+  // A column the player must pick before the effect, with the prompt shown
+  target?: { prompt: string; accepts: (gs: GameState, ci: number) => boolean };
+  effect: (gs: GameState, target: number | null) => CheatEffect;
+  // Label of the button playing the next action of a 'steps' effect
+  stepLabel?: string;
+  // Actions of this type in a game record can only come from this cheat
+  recordedAs?: GameAction['type'];
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Registry
+// ═══════════════════════════════════════════════════════════════════
+
+const hasHidden = (gs: GameState, ci: number) => gs.columns[ci]?.some(c => !c.faceUp) ?? false;
+
+export const CHEATS: Cheat[] = [
+  {
+    id: 'peek',
+    name: 'Petite fille',
+    icon: '👧',
+    shout: 'PETITE FILLE !',
+    animationMs: 1800,
+    colors: {
+      gradient: 'linear-gradient(135deg, #db2777 0%, #be185d 40%, #9d174d 100%)',
+      text: '#fce7f3',
+      accent: '219, 39, 119',
+    },
+    limit: 1,
+    available: gs => gs.columns.some((_, ci) => hasHidden(gs, ci)),
+    target: { prompt: 'Choisis une colonne avec des cartes cachées', accepts: hasHidden },
+    effect: (gs, ci) => ({
+      kind: 'reveal',
+      cardIds: ci === null ? [] : gs.columns[ci].filter(c => !c.faceUp).map(c => c.id),
+      ms: 5000,
+    }),
+  },
+  {
+    id: 'slowDist',
+    name: 'Triche de l\'Aude',
+    icon: '🍇',
+    shout: 'TRICHE DE L\'AUDE !',
+    animationMs: 1800,
+    colors: {
+      gradient: 'linear-gradient(135deg, #059669 0%, #047857 40%, #065f46 100%)',
+      text: '#d1fae5',
+      accent: '16, 185, 129',
+    },
+    limit: 1,
+    available: gs => gs.stock.length > 0,
+    // The next distribution, dealt one card at a time
+    effect: gs => ({
+      kind: 'steps',
+      actions: distributionTargets(gs).slice(0, gs.stock.length).map(to => ({ type: 'dealCard', to })),
+    }),
+    stepLabel: 'Carte suivante',
+    recordedAs: 'dealCard',
+  },
+  {
+    id: 'nextCard',
+    name: 'Boule de cristal',
+    icon: '🔮',
+    shout: 'BOULE DE CRISTAL !',
+    animationMs: 1800,
+    colors: {
+      gradient: 'linear-gradient(135deg, #7c3aed 0%, #6d28d9 40%, #5b21b6 100%)',
+      text: '#ede9fe',
+      accent: '139, 92, 246',
+    },
+    limit: 2,
+    available: gs => gs.stock.length > 0,
+    // The card the next distribution deals first
+    effect: gs => ({ kind: 'reveal', cardIds: gs.stock.slice(-1).map(c => c.id), ms: 3000 }),
+  },
+];
+
+export function findCheat(id: string): Cheat | null {
+  return CHEATS.find(c => c.id === id) ?? null;
+}
@@ -0,0 +1,108 @@
+import { profileName } from './profiles';
+import type { Profile } from './profiles';
+import { readStored, writeStored } from './storage';
+
+// ═══════════════════════════════════════════════════════════════════
+// Daily deals
+// ═══════════════════════════════════════════════════════════════════
+
+// Days are identified by their local calendar date, 'YYYY-MM-DD'.
+export function dayKey(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+// The `count` days up to and including `today`, most recent first.
+export function recentDays(today: Date, count: number): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - i)));
+}
+
+// The deal of a day, the same on every device: an FNV-1a hash of the date.
+export function dailySeed(day: string): number {
+  let h = 0x811c9dc5;
+  for (const ch of `reussite:${day}`) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+// `locale` is a BCP 47 tag such as 'fr-FR'.
+export function formatDay(day: string, locale: string): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Results
+// ═══════════════════════════════════════════════════════════════════
+
+// The one scored attempt a player gets at a day's deal. Attempts belong to a
+// profile; `player` is the name it went by, shown on the leaderboard.
+export interface DailyResult {
+  day: string;
+  profileId: string;
+  player: string;
+  won: boolean;
+  placed: number;
+  moves: number;
+  elapsedMs: number;
+  cheats: string[];
+}
+
+export function hasPlayed(results: DailyResult[], day: string, profileId: string): boolean {
+  return results.some(r => r.day === day && r.profileId === profileId);
+}
+
+// Later attempts at the same day by the same player are ignored.
+export function recordDailyResult(results: DailyResult[], result: DailyResult): DailyResult[] {
+  return hasPlayed(results, result.day, result.profileId) ? results : [...results, result];
+}
+
+// Best first: wins, then most cards placed, fewest moves, shortest time.
+export function leaderboard(results: DailyResult[], day: string): DailyResult[] {
+  return results
+    .filter(r => r.day === day)
+    .sort((a, b) => Number(b.won) - Number(a.won) || b.placed - a.placed
+      || a.moves - b.moves || a.elapsedMs - b.elapsedMs);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Storage
+// ═══════════════════════════════════════════════════════════════════
+
+const DAILY_KEY = 'reussite:defis';
+const DAILY_VERSION = 2;
+
+const isCount = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 0;
+
+// Version 1 kept results by player name only: each goes to the profile that
+// has that name, or to none ('') if no profile has it any more.
+function parseResult(v: unknown, version: number, profiles: Profile[]): DailyResult | null {
+  if (typeof v !== 'object' || v === null) return null;
+  const r = v as Record<string, unknown>;
+  if (typeof r.day !== 'string' || typeof r.player !== 'string' || typeof r.won !== 'boolean') return null;
+  if (!isCount(r.placed) || !isCount(r.moves) || typeof r.elapsedMs !== 'number') return null;
+  if (!Array.isArray(r.cheats) || !r.cheats.every(c => typeof c === 'string')) return null;
+  const profileId = version === 1 ? profiles.find(p => profileName(p) === r.player)?.id ?? '' : r.profileId;
+  if (typeof profileId !== 'string') return null;
+  return {
+    day: r.day, profileId, player: r.player, won: r.won,
+    placed: r.placed, moves: r.moves, elapsedMs: r.elapsedMs, cheats: [...r.cheats],
+  };
+}
+
+export function loadDailyResults(profiles: Profile[]): DailyResult[] {
+  return readStored(DAILY_KEY, (data, version) => {
+    if (version < 1 || version > DAILY_VERSION || !Array.isArray(data)) return null;
+    const results = data.map(r => parseResult(r, version, profiles));
+    return results.some(r => r === null) ? null : (results as DailyResult[]);
+  }) ?? [];
+}
+
+export function saveDailyResults(results: DailyResult[]): void {
+  writeStored(DAILY_KEY, DAILY_VERSION, results);
+}
@@ -0,0 +1,22 @@
+// Looks for a deal of the chosen difficulty off the main thread, since it
+// runs the solver on one candidate deal after another.
+
+import { CLASSIC, findDeal, findVariant } from './engine';
+import type { Difficulty } from './engine';
+
+export interface DealRequest {
+  difficulty: Difficulty;
+  variant: string;
+  start: number;
+}
+
+// null when no deal was found within the search budget
+export interface DealResponse {
+  seed: number | null;
+}
+
+addEventListener('message', (e: MessageEvent<DealRequest>) => {
+  const variant = findVariant(e.data.variant) ?? CLASSIC;
+  const response: DealResponse = { seed: findDeal(e.data.difficulty, variant, { start: e.data.start }) };
+  postMessage(response);
+});
@@ -0,0 +1,82 @@
+import type { Card, GameAction, GameState, MoveSource } from './engine';
+import type { Messages } from './i18n';
+
+// ═══════════════════════════════════════════════════════════════════
+// Names read out by screen readers
+// ═══════════════════════════════════════════════════════════════════
+
+// "Dame de cœur", "Atout 17", "Excuse", whether the card is face up or not.
+export function cardName(card: Card, t: Messages): string {
+  if (card.kind === 'excuse') return t.speech.excuse;
+  if (card.kind === 'trump') return t.speech.trump(card.value);
+  return t.speech.suitCard(t.speech.values[card.value] ?? String(card.value), t.speech.suits[card.suit!]);
+}
+
+// "Colonne 3, 5 cartes dont 2 cachées" or "Colonne 3, vide"
+export function columnLabel(col: Card[], index: number, t: Messages): string {
+  const name = t.speech.column(index + 1);
+  if (col.length === 0) return t.speech.empty(name);
+  return t.speech.columnCards(name, t.speech.cards(col.length), col.filter(c => !c.faceUp).length);
+}
+
+// "Fondation cœur, 5 cartes, dessus : 5 de cœur" or "Fondation cœur, vide"
+export function foundationLabel(fdn: Card[], index: number, t: Messages): string {
+  const name = t.speech.foundations[index];
+  const top = fdn.at(-1);
+  return top ? t.speech.foundationCards(name, t.speech.cards(fdn.length), cardName(top, t)) : t.speech.empty(name);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Announcements
+// ═══════════════════════════════════════════════════════════════════
+
+function sourceName(from: MoveSource, t: Messages): string {
+  if (from.from === 'excuse') return t.speech.fromExcuseSlot;
+  if (from.from === 'fdn') return t.speech.fromFoundation(t.speech.foundations[from.index]);
+  return t.speech.fromColumn(t.speech.column(from.index + 1));
+}
+
+// The cards that were hidden in `before` and show in `after`, by name.
+function uncovered(before: GameState, after: GameState, t: Messages): string[] {
+  const hidden = new Set(before.columns.flat().filter(c => !c.faceUp).map(c => c.id));
+  return after.columns.flat().filter(c => c.faceUp && hidden.has(c.id)).map(c => cardName(c, t));
+}
+
+// A sentence saying what `action` did, played from `before` and giving `after`.
+export function describeAction(before: GameState, action: GameAction, after: GameState, t: Messages): string {
+  const sp = t.speech;
+  let text: string;
+  switch (action.type) {
+    case 'toColumn': {
+      const moved = after.columns[action.to].slice(before.columns[action.to].length);
+      const onto = before.columns[action.to].at(-1);
+      const cards = moved.length > 1 ? sp.andMore(cardName(moved[0], t), sp.cards(moved.length - 1)) : cardName(moved[0], t);
+      const from = sourceName(action.from, t);
+      const col = sp.column(action.to + 1);
+      text = onto ? sp.moveOnto(cards, from, cardName(onto, t), col) : sp.moveToEmpty(cards, from, col);
+      break;
+    }
+    case 'toFoundation': {
+      const moved = after.foundations[action.to].slice(before.foundations[action.to].length);
+      const cards = moved.length > 1 ? sp.run(sp.cards(moved.length), cardName(moved.at(-1)!, t)) : cardName(moved[0], t);
+      text = sp.toFoundation(cards, sp.foundations[action.to]);
+      break;
+    }
+    case 'storeExcuse':
+      text = sp.excuseStored;
+      break;
+    case 'mergeTrumps':
+      text = sp.merged;
+      break;
+    case 'distribute':
+      text = sp.distributed(sp.cards(before.stock.length - after.stock.length), after.stock.length);
+      break;
+    case 'dealCard':
+      text = sp.dealt(cardName(after.columns[action.to].at(-1)!, t), sp.column(action.to + 1));
+      break;
+  }
+  const shown = uncovered(before, after, t);
+  if (shown.length > 0) text += `. ${sp.uncovered(shown)}`;
+  if (after.gameOver && !before.gameOver) text += `. ${sp.victory}`;
+  return text;
+}
@@ -0,0 +1,33 @@
+import { SUITS } from './deck';
+import { findFoundation, findSequenceForFoundation, isRed } from './rules';
+import type { Card, GameState, Move } from './types';
+
+// A suit card can safely go home once no card still in play could need it as
+// a base in a column: aces and twos always, otherwise when both suits of the
+// other colour have founded the rank below it.
+function isSafeSuitCard(card: Card, fdns: Card[][]): boolean {
+  if (card.value <= 2) return true;
+  return SUITS.every((suit, fi) =>
+    isRed({ ...card, suit }) === isRed(card) || fdns[fi].length >= card.value - 1);
+}
+
+// The first column whose bottom card can go home safely, as the move that
+// sends it there. Trumps always can: 1 and 21 start their piles and any other
+// trump (or run of trumps) only extends one.
+export function safeFoundationMove(gs: GameState): Extract<Move, { type: 'toFoundation' }> | null {
+  if (gs.gameOver) return null;
+  for (let ci = 0; ci < gs.columns.length; ci++) {
+    const col = gs.columns[ci];
+    const bottom = col[col.length - 1];
+    if (!bottom?.faceUp) continue;
+    const from = { from: 'col' as const, index: ci };
+    if (bottom.kind === 'suit') {
+      const fi = findFoundation(bottom, gs.foundations, gs.trumpsMerged);
+      if (fi >= 0 && isSafeSuitCard(bottom, gs.foundations)) return { type: 'toFoundation', from, to: fi };
+    } else if (bottom.kind === 'trump') {
+      const fi = [4, 5].find(f => findSequenceForFoundation(col, f, gs.foundations, gs.trumpsMerged).length > 0);
+      if (fi !== undefined) return { type: 'toFoundation', from, to: fi };
+    }
+  }
+  return null;
+}
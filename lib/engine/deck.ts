@@ -0,0 +1,87 @@
+import { CLASSIC } from './variants';
+import type { Card, GameState, Suit, Variant } from './types';
+
+export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+
+// ═══════════════════════════════════════════════════════════════════
+// Seeds
+// ═══════════════════════════════════════════════════════════════════
+
+// Deal numbers are 32-bit unsigned integers; random ones are kept short so
+// they are easy to read out and type back in.
+export const MAX_SEED = 0xffffffff;
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+// Parse a deal number from user input (e.g. the ?seed= URL parameter).
+export function parseSeed(raw: string | null): number | null {
+  if (raw === null || !/^\d{1,10}$/.test(raw.trim())) return null;
+  const n = Number(raw.trim());
+  return n <= MAX_SEED ? n : null;
+}
+
+// mulberry32: a small PRNG built only on 32-bit integer arithmetic, so a
+// given seed yields the same sequence in every browser and in Node.
+export function createRng(seed: number): () => number {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Deck & deal
+// ═══════════════════════════════════════════════════════════════════
+
+export function createDeck(): Card[] {
+  const cards: Card[] = [];
+  for (const suit of SUITS)
+    for (let v = 1; v <= 14; v++)
+      cards.push({ id: `${suit[0]}${v}`, kind: 'suit', suit, value: v, faceUp: false });
+  for (let v = 1; v <= 21; v++)
+    cards.push({ id: `t${v}`, kind: 'trump', value: v, faceUp: false });
+  cards.push({ id: 'ex', kind: 'excuse', value: 0, faceUp: false });
+  return cards;
+}
+
+export function shuffle<T>(arr: T[], rng: () => number): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+// Deal the columns from the variant's column sizes (only the bottom card of
+// each face up) and keep the rest as the stock, drawn from its end. The same
+// seed shuffles the deck the same way whatever the variant.
+export function dealGame(seed: number, variant: Variant = CLASSIC): GameState {
+  const deck = shuffle(createDeck(), createRng(seed));
+  const columns: Card[][] = [];
+  let idx = 0;
+  for (const size of variant.colSizes) {
+    const col = deck.slice(idx, idx + size).map((c, i, a) => ({
+      ...c,
+      faceUp: i === a.length - 1,
+    }));
+    columns.push(col);
+    idx += size;
+  }
+  return {
+    seed,
+    variant,
+    columns,
+    foundations: [[], [], [], [], [], []],
+    excuseSlot: null,
+    stock: deck.slice(idx),
+    moves: 0,
+    trumpsMerged: false,
+    gameOver: false,
+  };
+}
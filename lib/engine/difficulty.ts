@@ -0,0 +1,70 @@
+import { createRng, dealGame } from './deck';
+import { shortenLine, solve } from './solver';
+import type { SolveOptions } from './solver';
+import type { GameState, Variant } from './types';
+
+// ═══════════════════════════════════════════════════════════════════
+// Difficulty levels
+// ═══════════════════════════════════════════════════════════════════
+
+// 'normal' deals any seed. 'facile' only deals the solver proves winnable
+// without cheats, 'difficile' winnable deals that take many moves or the
+// trump merge.
+export type Difficulty = 'facile' | 'normal' | 'difficile';
+
+export const DIFFICULTIES: { id: Difficulty; name: string; description: string }[] = [
+  { id: 'facile', name: 'Facile', description: 'Uniquement des donnes gagnables sans triche.' },
+  { id: 'normal', name: 'Normal', description: 'N\'importe quelle donne, gagnable ou non.' },
+  { id: 'difficile', name: 'Difficile', description: 'Des donnes gagnables, mais qui demandent beaucoup de coups ou la fusion des atouts.' },
+];
+
+// Measured on the winning line once shortened (see shortenLine): winnable
+// classic deals mostly take 130 to 240 moves, distributions and merge
+// included, and about a third of them this many or more.
+export const HARD_MIN_MOVES = 175;
+
+// Each candidate gets a small budget: winnable deals are usually proven in a
+// few hundred positions, and those that aren't are cheaper to skip than to
+// settle.
+const CANDIDATE_BUDGET: SolveOptions = { maxNodes: 1_000, maxMillis: 500 };
+
+// Where the merge is optional, a deal the solver proves lost without it asks
+// for it; running out of budget proves nothing, and would make the answer
+// depend on the device's speed. Where it's required every win has it, so it
+// tells nothing.
+function needsMerge(gs: GameState): boolean {
+  if (gs.variant.merge !== 'optional') return false;
+  const withoutMerge = { ...gs, variant: { ...gs.variant, merge: 'never' as const } };
+  return solve(withoutMerge, CANDIDATE_BUDGET).status === 'perdue';
+}
+
+export function fitsDifficulty(gs: GameState, difficulty: Difficulty): boolean {
+  if (difficulty === 'normal') return true;
+  const result = solve(gs, CANDIDATE_BUDGET);
+  if (result.status !== 'gagnable') return false;
+  if (difficulty === 'facile') return true;
+  const line = shortenLine(gs, result.line);
+  return line.length >= HARD_MIN_MOVES || (line.some(m => m.type === 'mergeTrumps') && needsMerge(gs));
+}
+
+export interface DealSearchOptions {
+  // Seeds the sequence of candidate deals
+  start: number;
+  maxAttempts?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 200;
+
+// A deal number of the given difficulty under `variant`, drawn like
+// randomSeed from a sequence seeded by `start`, or null if none was found
+// within maxAttempts candidates. Slow: meant for a worker or a script.
+export function findDeal(difficulty: Difficulty, variant: Variant, options: DealSearchOptions): number | null {
+  const rng = createRng(options.start);
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  for (let i = 0; i < maxAttempts; i++) {
+    const seed = Math.floor(rng() * 1_000_000);
+    if (difficulty === 'normal') return seed;
+    if (fitsDifficulty(dealGame(seed, variant), difficulty)) return seed;
+  }
+  return null;
+}
@@ -0,0 +1,32 @@
+import { applyMove, findAutoMove } from './moves';
+import { canMergeTrumps } from './rules';
+import type { GameState, Move } from './types';
+
+// The next move of the automatic finish: merge the trumps as soon as they
+// meet, otherwise whatever a double-click would play on the first column that
+// has one (excuse storage, a card or a run of trumps to its foundation).
+function nextFinishingMove(gs: GameState): Move | null {
+  if (canMergeTrumps(gs)) return { type: 'mergeTrumps' };
+  for (let ci = 0; ci < gs.columns.length; ci++) {
+    const move = findAutoMove(gs, ci);
+    if (move) return move;
+  }
+  return null;
+}
+
+// Once the stock is empty and every card is face up, there is nothing left to
+// decide if the remaining cards can simply be sent home one after the other.
+// Returns those moves, ending on the win, or null if the game isn't there yet.
+export function finishingMoves(gs: GameState): Move[] | null {
+  if (gs.gameOver || gs.stock.length > 0 || gs.columns.some(col => col.some(c => !c.faceUp))) return null;
+  const moves: Move[] = [];
+  let cur = gs;
+  while (!cur.gameOver) {
+    const move = nextFinishingMove(cur);
+    const result = move && applyMove(cur, move);
+    if (!move || !result?.ok) return null;
+    moves.push(move);
+    cur = result.state;
+  }
+  return moves;
+}
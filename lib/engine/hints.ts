@@ -0,0 +1,34 @@
+import { applyMove, findAutoMove, legalMoves } from './moves';
+import type { GameState, Move } from './types';
+
+// How useful a move is to suggest to a player, or null if it only shuffles
+// cards around without progress (a whole column into an empty one, taking
+// cards back off the foundations or out of the excuse slot).
+function hintScore(gs: GameState, move: Move): number | null {
+  switch (move.type) {
+    case 'mergeTrumps': return 100;
+    case 'toFoundation': return move.from.from === 'col' ? 90 : null;
+    case 'storeExcuse': return 80;
+    case 'distribute': return 10;
+    case 'toColumn': {
+      if (move.from.from !== 'col') return null;
+      const col = gs.columns[move.from.index];
+      const k = move.from.cardIndex;
+      if (k === 0) return gs.columns[move.to].length === 0 ? null : 60; // empties a column
+      if (!col[k - 1].faceUp) return 70; // turns a hidden card over
+      // Splitting a sequence is worth it when it frees a card for a foundation
+      const result = applyMove(gs, move);
+      if (result.ok && findAutoMove(result.state, move.from.index)) return 50;
+      return 20;
+    }
+  }
+}
+
+// Legal moves worth suggesting, best first.
+export function hintMoves(gs: GameState): Move[] {
+  return legalMoves(gs)
+    .map(move => ({ move, score: hintScore(gs, move) }))
+    .filter((h): h is { move: Move; score: number } => h.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(h => h.move);
+}
@@ -0,0 +1,16 @@
+// Rules engine for La Réussite: deals, placement rules and moves over a plain,
+// serialisable GameState. No React or DOM dependency, so it runs in Node too.
+
+export * from './types';
+export * from './variants';
+export * from './deck';
+export * from './rules';
+export * from './moves';
+export * from './hints';
+export * from './solver';
+export * from './outlook';
+export * from './serialize';
+export * from './record';
+export * from './finish';
+export * from './collect';
+export * from './difficulty';
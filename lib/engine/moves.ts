@@ -0,0 +1,261 @@
+import {
+  canMergeTrumps, canPlaceOnColumn, canPlaceOnFoundation, distributionTargets,
+  findSequenceForFoundation, isWin, seqStart,
+} from './rules';
+import type {
+  Card, FoundationSource, GameState, Move, MoveRejection, MoveResult, MoveSource,
+} from './types';
+
+// ═══════════════════════════════════════════════════════════════════
+// State helpers
+// ═══════════════════════════════════════════════════════════════════
+
+// Copy the board so it can be mutated; any extra fields of S are kept as is.
+export function cloneState<S extends GameState>(gs: S): S {
+  return {
+    ...gs,
+    columns: gs.columns.map(c => c.map(card => ({ ...card }))),
+    foundations: gs.foundations.map(f => f.map(card => ({ ...card }))),
+    stock: gs.stock.map(c => ({ ...c })),
+    excuseSlot: gs.excuseSlot ? { ...gs.excuseSlot } : null,
+  };
+}
+
+export function revealBottom(col: Card[]) {
+  if (col.length > 0 && !col[col.length - 1].faceUp)
+    col[col.length - 1].faceUp = true;
+}
+
+// The card a move would pick up first (the top of the moved sequence).
+export function sourceCard(gs: GameState, src: MoveSource): Card | null {
+  if (src.from === 'excuse') return gs.excuseSlot;
+  if (src.from === 'fdn') {
+    const fdn = gs.foundations[src.index];
+    return fdn && fdn.length > 0 ? fdn[fdn.length - 1] : null;
+  }
+  const col = gs.columns[src.index];
+  return col && src.cardIndex < col.length ? col[src.cardIndex] : null;
+}
+
+function removeSourceCards(gs: GameState, src: MoveSource): Card[] {
+  if (src.from === 'excuse') {
+    const card = gs.excuseSlot;
+    gs.excuseSlot = null;
+    return card ? [card] : [];
+  }
+  if (src.from === 'fdn') {
+    const card = gs.foundations[src.index].pop();
+    return card ? [card] : [];
+  }
+  const col = gs.columns[src.index];
+  const removed = col.splice(src.cardIndex);
+  revealBottom(col);
+  return removed;
+}
+
+function checkSource(gs: GameState, src: MoveSource): MoveRejection | null {
+  if (src.from === 'excuse') return gs.excuseSlot ? null : 'empty-source';
+  if (src.from === 'fdn') {
+    const fdn = gs.foundations[src.index];
+    if (!fdn) return 'no-such-pile';
+    return fdn.length > 0 ? null : 'empty-source';
+  }
+  const col = gs.columns[src.index];
+  if (!col) return 'no-such-pile';
+  if (src.cardIndex < 0 || src.cardIndex >= col.length) return 'empty-source';
+  if (!col[src.cardIndex].faceUp || src.cardIndex < seqStart(col)) return 'not-movable';
+  return null;
+}
+
+const reject = (reason: MoveRejection): { ok: false; reason: MoveRejection } => ({ ok: false, reason });
+
+function played<S extends GameState>(s: S): MoveResult<S> {
+  s.moves++;
+  if (isWin(s)) s.gameOver = true;
+  return { ok: true, state: s };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Applying moves
+// ═══════════════════════════════════════════════════════════════════
+
+function moveToColumn<S extends GameState>(gs: S, from: MoveSource, to: number): MoveResult<S> {
+  if (!gs.columns[to]) return reject('no-such-pile');
+  if (from.from === 'col' && from.index === to) return reject('same-pile');
+  const invalid = checkSource(gs, from);
+  if (invalid) return reject(invalid);
+  if (from.from === 'fdn' && gs.variant.foundationsFinal) return reject('not-movable');
+  if (!canPlaceOnColumn(sourceCard(gs, from)!, gs.columns[to], gs.variant)) return reject('illegal-placement');
+  const s = cloneState(gs);
+  const moved = removeSourceCards(s, from);
+  s.columns[to].push(...moved);
+  return played(s);
+}
+
+function moveToFoundation<S extends GameState>(gs: S, from: FoundationSource, fi: number): MoveResult<S> {
+  if (!gs.foundations[fi]) return reject('no-such-pile');
+  if (from.from === 'col') {
+    const col = gs.columns[from.index];
+    if (!col) return reject('no-such-pile');
+    if (col.length === 0) return reject('empty-source');
+    // For trump foundations this may be a whole run of trumps
+    const seqCards = findSequenceForFoundation(col, fi, gs.foundations, gs.trumpsMerged);
+    if (seqCards.length === 0) return reject('illegal-placement');
+    const s = cloneState(gs);
+    const sCol = s.columns[from.index];
+    // Remove matched cards from column (they are at the bottom of the movable seq)
+    for (const sc of seqCards) {
+      const idx = sCol.findIndex(c => c.id === sc.id);
+      if (idx >= 0) sCol.splice(idx, 1);
+    }
+    revealBottom(sCol);
+    s.foundations[fi].push(...seqCards.map(c => ({ ...c })));
+    return played(s);
+  }
+  if (from.from === 'fdn' && from.index === fi) return reject('same-pile');
+  const invalid = checkSource(gs, from);
+  if (invalid) return reject(invalid);
+  if (!canPlaceOnFoundation(sourceCard(gs, from)!, fi, gs.foundations, gs.trumpsMerged)) {
+    return reject('illegal-placement');
+  }
+  const s = cloneState(gs);
+  const [card] = removeSourceCards(s, from);
+  s.foundations[fi].push(card);
+  return played(s);
+}
+
+// The excuse can be pulled out of anywhere in a column's movable sequence.
+function storeExcuse<S extends GameState>(gs: S, ci: number): MoveResult<S> {
+  const col = gs.columns[ci];
+  if (!col) return reject('no-such-pile');
+  if (gs.excuseSlot !== null) return reject('excuse-slot-full');
+  const ss = seqStart(col);
+  const excIdx = col.findIndex((c, i) => i >= ss && c.kind === 'excuse' && c.faceUp);
+  if (excIdx < 0) return reject('no-excuse');
+  const s = cloneState(gs);
+  const sCol = s.columns[ci];
+  const [excCard] = sCol.splice(excIdx, 1);
+  revealBottom(sCol);
+  excCard.faceUp = true;
+  s.excuseSlot = excCard;
+  return played(s);
+}
+
+// The descending pile is reversed onto the ascending one.
+function mergeTrumps<S extends GameState>(gs: S): MoveResult<S> {
+  if (!canMergeTrumps(gs)) return reject('cannot-merge');
+  const s = cloneState(gs);
+  const descReversed = [...s.foundations[5]].reverse();
+  s.foundations[4] = [...s.foundations[4], ...descReversed];
+  s.foundations[5] = [];
+  s.trumpsMerged = true;
+  return played(s);
+}
+
+// One card face up on each eligible column, in order, while the stock lasts.
+// Distributing doesn't count as a move.
+function distribute<S extends GameState>(gs: S): MoveResult<S> {
+  if (gs.stock.length === 0) return reject('stock-empty');
+  const eligible = distributionTargets(gs);
+  if (eligible.length === 0) return reject('no-eligible-column');
+  const s = cloneState(gs);
+  const count = Math.min(s.stock.length, eligible.length);
+  for (let i = 0; i < count; i++) {
+    const card = s.stock.pop()!;
+    card.faceUp = true;
+    s.columns[eligible[i]].push(card);
+  }
+  return { ok: true, state: s };
+}
+
+// Play a move on a copy of the state. The given state is never modified.
+export function applyMove<S extends GameState>(gs: S, move: Move): MoveResult<S> {
+  if (gs.gameOver) return reject('game-over');
+  switch (move.type) {
+    case 'toColumn': return moveToColumn(gs, move.from, move.to);
+    case 'toFoundation': return moveToFoundation(gs, move.from, move.to);
+    case 'storeExcuse': return storeExcuse(gs, move.from);
+    case 'mergeTrumps': return mergeTrumps(gs);
+    case 'distribute': return distribute(gs);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Enumerating moves
+// ═══════════════════════════════════════════════════════════════════
+
+// Every move applyMove would accept in this state.
+export function legalMoves(gs: GameState): Move[] {
+  if (gs.gameOver) return [];
+  const moves: Move[] = [];
+  const nCols = gs.columns.length;
+  const nFdns = gs.foundations.length;
+
+  // Column sequences to other columns
+  gs.columns.forEach((col, ci) => {
+    for (let k = seqStart(col); k < col.length; k++) {
+      if (!col[k].faceUp) continue;
+      for (let to = 0; to < nCols; to++) {
+        if (to !== ci && canPlaceOnColumn(col[k], gs.columns[to], gs.variant))
+          moves.push({ type: 'toColumn', from: { from: 'col', index: ci, cardIndex: k }, to });
+      }
+    }
+  });
+
+  // Stored excuse and foundation tops back onto the tableau
+  if (gs.excuseSlot) {
+    for (let to = 0; to < nCols; to++) {
+      if (canPlaceOnColumn(gs.excuseSlot, gs.columns[to], gs.variant))
+        moves.push({ type: 'toColumn', from: { from: 'excuse' }, to });
+    }
+  }
+  gs.foundations.forEach((fdn, fi) => {
+    if (fdn.length === 0) return;
+    const top = fdn[fdn.length - 1];
+    for (let to = 0; to < nCols && !gs.variant.foundationsFinal; to++) {
+      if (canPlaceOnColumn(top, gs.columns[to], gs.variant))
+        moves.push({ type: 'toColumn', from: { from: 'fdn', index: fi }, to });
+    }
+    for (let to = 0; to < nFdns; to++) {
+      if (to !== fi && canPlaceOnFoundation(top, to, gs.foundations, gs.trumpsMerged))
+        moves.push({ type: 'toFoundation', from: { from: 'fdn', index: fi }, to });
+    }
+  });
+
+  // Columns to foundations
+  gs.columns.forEach((col, ci) => {
+    for (let to = 0; to < nFdns; to++) {
+      if (findSequenceForFoundation(col, to, gs.foundations, gs.trumpsMerged).length > 0)
+        moves.push({ type: 'toFoundation', from: { from: 'col', index: ci }, to });
+    }
+  });
+
+  if (gs.excuseSlot === null) {
+    gs.columns.forEach((col, ci) => {
+      const ss = seqStart(col);
+      if (col.some((c, i) => i >= ss && c.kind === 'excuse' && c.faceUp))
+        moves.push({ type: 'storeExcuse', from: ci });
+    });
+  }
+
+  if (canMergeTrumps(gs)) moves.push({ type: 'mergeTrumps' });
+  if (gs.stock.length > 0 && distributionTargets(gs).length > 0) moves.push({ type: 'distribute' });
+  return moves;
+}
+
+// The move a double-click on a column plays: store its bottom excuse, else
+// send the bottom card (or trump run) to the first foundation that takes it,
+// trump foundations first.
+export function findAutoMove(gs: GameState, ci: number): Move | null {
+  const col = gs.columns[ci];
+  if (!col || col.length === 0) return null;
+  const card = col[col.length - 1];
+  if (card.kind === 'excuse') {
+    return gs.excuseSlot === null ? { type: 'storeExcuse', from: ci } : null;
+  }
+  for (const fi of [4, 5, 0, 1, 2, 3]) {
+    if (findSequenceForFoundation(col, fi, gs.foundations, gs.trumpsMerged).length > 0)
+      return { type: 'toFoundation', from: { from: 'col', index: ci }, to: fi };
+  }
+  return null;
+}
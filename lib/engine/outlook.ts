@@ -0,0 +1,45 @@
+import { applyMove, legalMoves } from './moves';
+import { countAllPlaced } from './rules';
+import { positionKey } from './solver';
+import type { GameState } from './types';
+
+// 'open': progress is still possible without touching the stock.
+// 'distribute-only': the only way forward is to distribute.
+// 'blocked': nothing can make progress any more, the game is lost.
+export type Outlook = 'open' | 'distribute-only' | 'blocked';
+
+const DEFAULT_MAX_POSITIONS = 400;
+
+function hiddenCount(gs: GameState): number {
+  return gs.columns.reduce((n, col) => n + col.filter(c => !c.faceUp).length, 0);
+}
+
+// Explore every position reachable without distributing, looking for one that
+// makes real progress: more cards placed, a hidden card turned over or the
+// trumps merged. Moving cards back and forth never counts. If the exploration
+// gets too big the position is assumed to be open.
+export function positionOutlook(gs: GameState, maxPositions = DEFAULT_MAX_POSITIONS): Outlook {
+  if (gs.gameOver) return 'open';
+  const placed = countAllPlaced(gs);
+  const hidden = hiddenCount(gs);
+  const progresses = (s: GameState) => s.gameOver || countAllPlaced(s) > placed
+    || hiddenCount(s) < hidden || (s.trumpsMerged && !gs.trumpsMerged);
+
+  const seen = new Set<string>([positionKey(gs)]);
+  const queue: GameState[] = [gs];
+  while (queue.length > 0) {
+    const cur = queue.shift()!;
+    for (const move of legalMoves(cur)) {
+      if (move.type === 'distribute') continue;
+      const result = applyMove(cur, move);
+      if (!result.ok) continue;
+      if (progresses(result.state)) return 'open';
+      const key = positionKey(result.state);
+      if (seen.has(key)) continue;
+      if (seen.size >= maxPositions) return 'open';
+      seen.add(key);
+      queue.push(result.state);
+    }
+  }
+  return legalMoves(gs).some(m => m.type === 'distribute') ? 'distribute-only' : 'blocked';
+}
@@ -0,0 +1,196 @@
+import { dealGame, parseSeed, SUITS } from './deck';
+import { applyMove, cloneState } from './moves';
+import { CLASSIC, findVariant } from './variants';
+import type {
+  Card, FoundationSource, GameState, Move, MoveRejection, MoveResult, MoveSource, Variant,
+} from './types';
+
+// ═══════════════════════════════════════════════════════════════════
+// Actions
+// ═══════════════════════════════════════════════════════════════════
+
+// Everything that can change the board during a game: the engine's moves,
+// plus a single stock card dealt onto one column, as the slow distribution
+// cheat does.
+export type GameAction = Move | { type: 'dealCard'; to: number };
+
+// Like a distribution, dealing a card doesn't count as a move.
+export function applyAction<S extends GameState>(gs: S, action: GameAction): MoveResult<S> {
+  if (action.type !== 'dealCard') return applyMove(gs, action);
+  if (gs.gameOver) return { ok: false, reason: 'game-over' };
+  if (!gs.columns[action.to]) return { ok: false, reason: 'no-such-pile' };
+  if (gs.stock.length === 0) return { ok: false, reason: 'stock-empty' };
+  const s = cloneState(gs);
+  const card = s.stock.pop()!;
+  card.faceUp = true;
+  s.columns[action.to].push(card);
+  return { ok: true, state: s };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Notation
+// ═══════════════════════════════════════════════════════════════════
+
+// Columns are c1..c11, foundations F♥ F♦ F♣ F♠ (SUITS order), F↑ and F↓, the
+// excuse slot is E. Moves between columns give the cards that travel, by id:
+//   c3→c7 (h9..h6)   c2→F♥   c5→E   E→c4   F↓→F↑   D   D→c3   M
+// D alone is a distribution, D→c3 a single card dealt onto c3.
+const SUIT_SYMBOLS: Record<string, string> = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' };
+const FOUNDATION_NAMES = [...SUITS.map(s => `F${SUIT_SYMBOLS[s]}`), 'F↑', 'F↓'];
+
+const columnName = (index: number) => `c${index + 1}`;
+
+function sourceName(src: MoveSource | FoundationSource): string {
+  if (src.from === 'col') return columnName(src.index);
+  return src.from === 'excuse' ? 'E' : FOUNDATION_NAMES[src.index];
+}
+
+function cardRange(cards: Card[]): string {
+  if (cards.length === 0) return '';
+  const first = cards[0].id;
+  const last = cards[cards.length - 1].id;
+  return cards.length === 1 ? ` (${first})` : ` (${first}..${last})`;
+}
+
+// The notation of an action played from the position `gs`.
+export function formatAction(gs: GameState, action: GameAction): string {
+  switch (action.type) {
+    case 'toColumn': {
+      const { from, to } = action;
+      const cards = from.from === 'col' ? cardRange(gs.columns[from.index]?.slice(from.cardIndex) ?? []) : '';
+      return `${sourceName(from)}→${columnName(to)}${cards}`;
+    }
+    case 'toFoundation': return `${sourceName(action.from)}→${FOUNDATION_NAMES[action.to]}`;
+    case 'storeExcuse': return `${columnName(action.from)}→E`;
+    case 'mergeTrumps': return 'M';
+    case 'distribute': return 'D';
+    case 'dealCard': return `D→${columnName(action.to)}`;
+  }
+}
+
+type Pile =
+  | { kind: 'col'; index: number }
+  | { kind: 'fdn'; index: number }
+  | { kind: 'excuse' }
+  | { kind: 'stock' };
+
+function parsePile(name: string): Pile | null {
+  const col = /^c(\d{1,2})$/.exec(name);
+  if (col) return { kind: 'col', index: Number(col[1]) - 1 };
+  if (name === 'E') return { kind: 'excuse' };
+  if (name === 'D') return { kind: 'stock' };
+  const fi = FOUNDATION_NAMES.indexOf(name);
+  return fi >= 0 ? { kind: 'fdn', index: fi } : null;
+}
+
+// Read one action back, in the position it's played from (needed to find
+// where the moving cards start in their column). Accepts -> for →. Returns
+// null if the text isn't valid notation; whether the action is legal is left
+// to applyAction.
+export function parseAction(gs: GameState, text: string): GameAction | null {
+  const t = text.trim().replace(/->/g, '→');
+  if (t === 'M') return { type: 'mergeTrumps' };
+  if (t === 'D') return { type: 'distribute' };
+  const m = /^(\S+?)→(\S+?)(?:\s+\((\w+)(?:\.\.(\w+))?\))?$/.exec(t);
+  if (!m) return null;
+  const [, fromName, toName, firstId, lastId] = m;
+  const from = parsePile(fromName);
+  const to = parsePile(toName);
+  if (!from || !to || from.kind === 'stock' && to.kind !== 'col') return null;
+
+  if (to.kind === 'col') {
+    if (from.kind === 'stock') return { type: 'dealCard', to: to.index };
+    if (from.kind === 'excuse') return { type: 'toColumn', from: { from: 'excuse' }, to: to.index };
+    if (from.kind === 'fdn') return { type: 'toColumn', from: { from: 'fdn', index: from.index }, to: to.index };
+    const col = gs.columns[from.index];
+    if (!col || !firstId) return null;
+    const cardIndex = col.findIndex(c => c.id === firstId);
+    const bottom = col[col.length - 1];
+    if (cardIndex < 0 || bottom.id !== (lastId ?? firstId)) return null;
+    return { type: 'toColumn', from: { from: 'col', index: from.index, cardIndex }, to: to.index };
+  }
+  if (to.kind === 'excuse') {
+    return from.kind === 'col' ? { type: 'storeExcuse', from: from.index } : null;
+  }
+  if (to.kind !== 'fdn') return null;
+  const source: FoundationSource | null =
+    from.kind === 'col' ? { from: 'col', index: from.index }
+    : from.kind === 'excuse' ? { from: 'excuse' }
+    : from.kind === 'fdn' ? { from: 'fdn', index: from.index }
+    : null;
+  return source ? { type: 'toFoundation', from: source, to: to.index } : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Game records
+// ═══════════════════════════════════════════════════════════════════
+
+// A whole game: replaying the actions on the deal of `seed` under `variant`
+// gives back the exact position.
+export interface GameRecord {
+  seed: number;
+  variant: Variant;
+  actions: GameAction[];
+}
+
+export type RecordError = 'no-seed' | 'unknown-variant' | 'bad-notation' | MoveRejection;
+
+export type RecordResult =
+  | { ok: true; record: GameRecord; state: GameState }
+  | { ok: false; line: number; error: RecordError };
+
+// The position a record leads to, or null if one of its actions can't be
+// played.
+export function replayRecord(record: GameRecord): GameState | null {
+  let gs = dealGame(record.seed, record.variant);
+  for (const action of record.actions) {
+    const result = applyAction(gs, action);
+    if (!result.ok) return null;
+    gs = result.state;
+  }
+  return gs;
+}
+
+// The notation of every action of a game, in order.
+export function describeActions(record: GameRecord): string[] {
+  let gs = dealGame(record.seed, record.variant);
+  return record.actions.map(action => {
+    const text = formatAction(gs, action);
+    const result = applyAction(gs, action);
+    if (result.ok) gs = result.state;
+    return text;
+  });
+}
+
+// Plain text: '#seed' on the first line, followed by the variant id unless
+// the game is classic, then one numbered action per line.
+export function formatRecord(record: GameRecord): string {
+  const lines = describeActions(record).map((text, i) => `${i + 1}. ${text}`);
+  const header = record.variant.id === CLASSIC.id ? `#${record.seed}` : `#${record.seed} ${record.variant.id}`;
+  return [header, ...lines].join('\n');
+}
+
+// Read a game written by formatRecord and replay it. Blank lines and the
+// action numbers are optional. Errors give the 1-based line they were found on.
+export function parseRecord(text: string): RecordResult {
+  const lines = text.split(/\r?\n/).map((raw, i) => ({ text: raw.trim(), line: i + 1 }))
+    .filter(l => l.text !== '');
+  const header = lines.shift();
+  const m = header && /^#\s*(\d+)(?:\s+(\S+))?$/.exec(header.text);
+  const seed = m ? parseSeed(m[1]) : null;
+  if (!header || !m || seed === null) return { ok: false, line: header?.line ?? 1, error: 'no-seed' };
+  const variant = m[2] === undefined ? CLASSIC : findVariant(m[2]);
+  if (!variant) return { ok: false, line: header.line, error: 'unknown-variant' };
+
+  let gs = dealGame(seed, variant);
+  const actions: GameAction[] = [];
+  for (const { text: raw, line } of lines) {
+    const action = parseAction(gs, raw.replace(/^\d+\.\s*/, ''));
+    if (!action) return { ok: false, line, error: 'bad-notation' };
+    const result = applyAction(gs, action);
+    if (!result.ok) return { ok: false, line, error: result.reason };
+    gs = result.state;
+    actions.push(action);
+  }
+  return { ok: true, record: { seed, variant, actions }, state: gs };
+}
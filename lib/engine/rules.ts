@@ -0,0 +1,209 @@
+import { SUITS } from './deck';
+import type { Card, GameState, Variant } from './types';
+
+export const isRed = (c: Card) => c.suit === 'hearts' || c.suit === 'diamonds';
+
+// Does the column contain a face-up King (value 14)?
+export function hasVisibleKing(col: Card[]): boolean {
+  return col.some(c => c.faceUp && c.kind === 'suit' && c.value === 14);
+}
+
+// Columns that receive a card when the stock is distributed, in dealing
+// order: every column, except those holding a visible King if the variant
+// skips them.
+export function distributionTargets(gs: GameState): number[] {
+  const eligible: number[] = [];
+  for (let i = 0; i < gs.columns.length; i++) {
+    if (!gs.variant.kingsSkipDistribution || !hasVisibleKing(gs.columns[i])) eligible.push(i);
+  }
+  return eligible;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Placement rules
+// ═══════════════════════════════════════════════════════════════════
+
+export function canPlaceOnColumn(card: Card, col: Card[], variant: Variant): boolean {
+  if (card.kind === 'excuse') return col.length > 0;
+  if (col.length === 0) return !variant.kingsOnlyOnEmpty || (card.kind === 'suit' && card.value === 14);
+  // Find the real (non-excuse) card at the top and count how many excuses sit above it
+  let gap = 0;
+  let realIdx = col.length - 1;
+  while (realIdx >= 0 && col[realIdx].kind === 'excuse') { gap++; realIdx--; }
+  if (realIdx < 0) return true; // column is all excuses — accept anything
+  const real = col[realIdx];
+  const expectedValue = real.value - (gap + 1);
+  if (card.kind === 'trump') {
+    return real.kind === 'trump' && card.value === expectedValue;
+  }
+  if (real.kind === 'suit') {
+    const colorOk = (gap + 1) % 2 === 1 ? isRed(card) !== isRed(real) : isRed(card) === isRed(real);
+    return card.kind === 'suit' && card.value === expectedValue && colorOk;
+  }
+  return false;
+}
+
+export function canPlaceOnFoundation(card: Card, fi: number, allFdns: Card[][], merged: boolean): boolean {
+  const fdn = allFdns[fi];
+  if (fi < 4) {
+    if (card.kind !== 'suit' || card.suit !== SUITS[fi]) return false;
+    return fdn.length === 0 ? card.value === 1 : card.value === fdn[fdn.length - 1].value + 1;
+  }
+  if (fi === 4) {
+    if (card.kind !== 'trump') return false;
+    if (merged) return false;
+    if (fdn.length === 0) return card.value === 1;
+    return card.value === fdn[fdn.length - 1].value + 1;
+  }
+  if (fi === 5) {
+    if (card.kind !== 'trump') return false;
+    if (merged) return false;
+    if (fdn.length === 0) return card.value === 21;
+    return card.value === fdn[fdn.length - 1].value - 1;
+  }
+  return false;
+}
+
+export function findFoundation(card: Card, fdns: Card[][], merged: boolean): number {
+  for (let i = 0; i < 6; i++)
+    if (canPlaceOnFoundation(card, i, fdns, merged)) return i;
+  return -1;
+}
+
+// Given a column and a foundation index, find how many cards from the bottom
+// of the column's movable sequence can be placed consecutively on the foundation.
+// Returns the cards to move (in order), or empty array if none can be placed.
+export function findSequenceForFoundation(
+  col: Card[], fi: number, fdns: Card[][], merged: boolean
+): Card[] {
+  if (col.length === 0) return [];
+  const ss = seqStart(col);
+  const seq = col.slice(ss); // the movable sequence
+
+  // For suit foundations (0-3): only the bottom card (top of column) can go,
+  // because suit foundations build A->K and sequences are descending.
+  // Only a single card at the bottom matches.
+  if (fi < 4) {
+    const bottom = seq[seq.length - 1];
+    if (bottom && canPlaceOnFoundation(bottom, fi, fdns, merged)) return [bottom];
+    return [];
+  }
+
+  // For trump foundations (4-5): find the longest suffix of the sequence
+  // that can be placed on the foundation in order (bottom card first).
+  // The sequence in the column is descending (e.g. 10,9,8,7 with possible excuses).
+  // Foundation 4 (ascending) needs consecutive ascending values.
+  // Foundation 5 (descending) needs consecutive descending values.
+  if (merged) return [];
+  const fdn = fdns[fi];
+
+  // Collect actual trump cards from the sequence (skip excuses, they stay in column)
+  // We need to find cards from bottom of sequence going up that form a consecutive run
+  // matching the foundation's next expected values.
+  const trumpsFromBottom: { card: Card; colIndex: number }[] = [];
+  for (let i = seq.length - 1; i >= 0; i--) {
+    const card = seq[i];
+    if (card.kind === 'excuse') continue; // skip excuses
+    if (card.kind !== 'trump') break; // non-trump breaks
+    trumpsFromBottom.push({ card, colIndex: ss + i });
+  }
+
+  if (trumpsFromBottom.length === 0) return [];
+
+  // Check how many of these consecutive trumps can go on the foundation
+  const result: Card[] = [];
+  // Simulate placing cards one by one
+  let nextExpected: number;
+  if (fi === 4) {
+    nextExpected = fdn.length === 0 ? 1 : fdn[fdn.length - 1].value + 1;
+  } else {
+    nextExpected = fdn.length === 0 ? 21 : fdn[fdn.length - 1].value - 1;
+  }
+
+  for (const { card } of trumpsFromBottom) {
+    if (card.value === nextExpected) {
+      result.push(card);
+      nextExpected = fi === 4 ? nextExpected + 1 : nextExpected - 1;
+    } else {
+      break;
+    }
+  }
+
+  return result;
+}
+
+// The piles merge once they meet. When the merge is required to win, one
+// pile holding all 21 trumps can be "merged" too, so the game can't get stuck.
+export function canMergeTrumps(gs: GameState): boolean {
+  if (gs.trumpsMerged || gs.variant.merge === 'never') return false;
+  const asc = gs.foundations[4];
+  const desc = gs.foundations[5];
+  if (gs.variant.merge === 'required' && asc.length + desc.length === 21) return true;
+  if (asc.length === 0 || desc.length === 0) return false;
+  return asc[asc.length - 1].value + 1 === desc[desc.length - 1].value;
+}
+
+export function countAllPlaced(gs: GameState): number {
+  return gs.foundations.reduce((s, f) => s + f.length, 0)
+    + (gs.excuseSlot !== null ? 1 : 0);
+}
+
+export function isWin(gs: GameState): boolean {
+  const suitsDone = gs.foundations[0].length === 14 && gs.foundations[1].length === 14
+    && gs.foundations[2].length === 14 && gs.foundations[3].length === 14;
+  const trumpsDone = gs.foundations[4].length + gs.foundations[5].length === 21;
+  const excuseDone = gs.excuseSlot !== null;
+  const mergeDone = gs.variant.merge !== 'required' || gs.trumpsMerged;
+  return suitsDone && trumpsDone && excuseDone && mergeDone;
+}
+
+// Find the start index of the movable sequence at the bottom of a column.
+// A sequence is a contiguous run of face-up cards where each card could be
+// legally placed on the one below it (alternating color for suits, consecutive
+// for trumps). The excuse acts as a transparent joker — it takes the place of
+// whatever card is logically expected and the sequence continues through it.
+export function seqStart(col: Card[]): number {
+  if (col.length === 0) return 0;
+  let i = col.length - 1;
+  while (i > 0) {
+    const cur = col[i];
+    const prev = col[i - 1];
+    if (!cur.faceUp || !prev.faceUp) break;
+
+    // If prev is excuse, find the real card above it to check continuity
+    if (prev.kind === 'excuse') {
+      // Find the next real (non-excuse) card above
+      let k = i - 2;
+      while (k >= 0 && col[k].kind === 'excuse' && col[k].faceUp) k--;
+      if (k < 0 || !col[k].faceUp) { i--; continue; } // only excuses above, keep going
+      const real = col[k];
+      // cur must be a valid continuation of real, accounting for the gap
+      const gap = i - k; // number of positions between real and cur
+      if (cur.kind === 'trump' && real.kind === 'trump') {
+        if (cur.value !== real.value - gap) break;
+      } else if (cur.kind === 'suit' && real.kind === 'suit') {
+        if (cur.value !== real.value - gap) break;
+        // For suits, alternating color check: with odd gap, must differ; even gap, must match
+        if ((gap % 2 === 1) === (isRed(cur) === isRed(real))) break;
+      } else if (cur.kind !== 'excuse') {
+        break; // Mixed trump/suit
+      }
+      i--;
+      continue;
+    }
+
+    // If cur is excuse, it's always valid in the sequence (transparent)
+    if (cur.kind === 'excuse') { i--; continue; }
+
+    // Normal card-to-card check
+    if (cur.kind === 'trump' && prev.kind === 'trump') {
+      if (cur.value !== prev.value - 1) break;
+    } else if (cur.kind === 'suit' && prev.kind === 'suit') {
+      if (cur.value !== prev.value - 1 || isRed(cur) === isRed(prev)) break;
+    } else {
+      break; // Mixed trump/suit breaks the sequence
+    }
+    i--;
+  }
+  return i;
+}
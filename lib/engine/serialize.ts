@@ -0,0 +1,127 @@
+import { createDeck } from './deck';
+import { CLASSIC, findVariant } from './variants';
+import type { GameAction } from './record';
+import type { Card, FoundationSource, GameState, MoveSource, Variant } from './types';
+
+// ═══════════════════════════════════════════════════════════════════
+// Reading a GameState back from untrusted data
+// ═══════════════════════════════════════════════════════════════════
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isCount = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 0;
+
+// Cards are matched against the real deck by id, so a card can't change its
+// suit or value along the way.
+function parseCard(v: unknown, deck: Map<string, Card>): Card | null {
+  if (!isRecord(v) || typeof v.id !== 'string' || typeof v.faceUp !== 'boolean') return null;
+  const real = deck.get(v.id);
+  if (!real || v.kind !== real.kind || v.value !== real.value || v.suit !== real.suit) return null;
+  return { ...real, faceUp: v.faceUp };
+}
+
+function parseCards(v: unknown, deck: Map<string, Card>): Card[] | null {
+  if (!Array.isArray(v)) return null;
+  const cards = v.map(c => parseCard(c, deck));
+  return cards.some(c => c === null) ? null : (cards as Card[]);
+}
+
+function parsePiles(v: unknown, deck: Map<string, Card>): Card[][] | null {
+  if (!Array.isArray(v)) return null;
+  const piles = v.map(pile => parseCards(pile, deck));
+  return piles.some(p => p === null) ? null : (piles as Card[][]);
+}
+
+// Like cards, a variant is taken from the presets by id. States saved before
+// variants existed have none and were played under the classic rules.
+function parseVariant(v: unknown): Variant | null {
+  if (v === undefined) return CLASSIC;
+  return isRecord(v) && typeof v.id === 'string' ? findVariant(v.id) : null;
+}
+
+// Rebuild a GameState from parsed JSON, or return null if anything is off:
+// missing fields, wrong types, or a deck that isn't exactly the 78 cards.
+export function parseGameState(data: unknown): GameState | null {
+  if (!isRecord(data)) return null;
+  const variant = parseVariant(data.variant);
+  if (!variant) return null;
+  const deck = new Map(createDeck().map(c => [c.id, c]));
+  const columns = parsePiles(data.columns, deck);
+  const foundations = parsePiles(data.foundations, deck);
+  const stock = parseCards(data.stock, deck);
+  const excuseSlot = data.excuseSlot === null ? null : parseCard(data.excuseSlot, deck);
+  if (!columns || columns.length !== variant.colSizes.length || !foundations || foundations.length !== 6 || !stock) return null;
+  if (data.excuseSlot !== null && excuseSlot === null) return null;
+  if (!isCount(data.seed) || !isCount(data.moves)) return null;
+  if (typeof data.trumpsMerged !== 'boolean' || typeof data.gameOver !== 'boolean') return null;
+
+  const ids = [...columns.flat(), ...foundations.flat(), ...stock, ...(excuseSlot ? [excuseSlot] : [])]
+    .map(c => c.id);
+  if (ids.length !== deck.size || new Set(ids).size !== deck.size) return null;
+
+  return {
+    seed: data.seed,
+    variant,
+    columns,
+    foundations,
+    excuseSlot,
+    stock,
+    moves: data.moves,
+    trumpsMerged: data.trumpsMerged,
+    gameOver: data.gameOver,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Reading actions back from untrusted data
+// ═══════════════════════════════════════════════════════════════════
+
+// Only the shape is checked here: whether an action fits the board is for
+// applyAction to say.
+function parseFoundationSource(v: unknown): FoundationSource | null {
+  if (!isRecord(v)) return null;
+  if (v.from === 'excuse') return { from: 'excuse' };
+  if ((v.from === 'col' || v.from === 'fdn') && isCount(v.index)) return { from: v.from, index: v.index };
+  return null;
+}
+
+function parseMoveSource(v: unknown): MoveSource | null {
+  if (!isRecord(v)) return null;
+  if (v.from === 'excuse') return { from: 'excuse' };
+  if (v.from === 'fdn' && isCount(v.index)) return { from: 'fdn', index: v.index };
+  if (v.from === 'col' && isCount(v.index) && isCount(v.cardIndex)) {
+    return { from: 'col', index: v.index, cardIndex: v.cardIndex };
+  }
+  return null;
+}
+
+export function parseGameAction(data: unknown): GameAction | null {
+  if (!isRecord(data)) return null;
+  switch (data.type) {
+    case 'mergeTrumps':
+    case 'distribute':
+      return { type: data.type };
+    case 'storeExcuse':
+      return isCount(data.from) ? { type: 'storeExcuse', from: data.from } : null;
+    case 'dealCard':
+      return isCount(data.to) ? { type: 'dealCard', to: data.to } : null;
+    case 'toColumn': {
+      const from = parseMoveSource(data.from);
+      return from && isCount(data.to) ? { type: 'toColumn', from, to: data.to } : null;
+    }
+    case 'toFoundation': {
+      const from = parseFoundationSource(data.from);
+      return from && isCount(data.to) ? { type: 'toFoundation', from, to: data.to } : null;
+    }
+  }
+  return null;
+}
+
+// A list of actions, or null if any of them is malformed.
+export function parseGameActions(data: unknown): GameAction[] | null {
+  if (!Array.isArray(data)) return null;
+  const actions = data.map(parseGameAction);
+  return actions.some(a => a === null) ? null : (actions as GameAction[]);
+}
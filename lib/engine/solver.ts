@@ -0,0 +1,144 @@
+import { applyMove, legalMoves } from './moves';
+import { isWin } from './rules';
+import type { GameState, Move } from './types';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type SolveStatus = 'gagnable' | 'perdue' | 'inconnu';
+
+// 'gagnable' comes with a line of moves that wins from the given state,
+// 'perdue' means every reachable position was explored without a win, and
+// 'inconnu' that the node or time budget ran out first.
+export type SolveResult =
+  | { status: 'gagnable'; line: Move[]; nodes: number }
+  | { status: 'perdue'; nodes: number }
+  | { status: 'inconnu'; nodes: number };
+
+export interface SolveOptions {
+  maxNodes?: number;
+  maxMillis?: number;
+}
+
+const DEFAULT_MAX_NODES = 200_000;
+const DEFAULT_MAX_MILLIS = 5_000;
+
+// ═══════════════════════════════════════════════════════════════════
+// Search helpers
+// ═══════════════════════════════════════════════════════════════════
+
+// Identifies a position regardless of how it was reached. The stock is only
+// ever drawn from its end, so its length is enough to know what's left in it;
+// likewise the foundations are determined by their lengths.
+export function positionKey(gs: GameState): string {
+  const cols = gs.columns
+    .map(col => col.map(c => (c.faceUp ? c.id : `*${c.id}`)).join(','))
+    .join('|');
+  const fdns = gs.foundations.map(f => f.length).join(',');
+  return `${cols}#${fdns}#${gs.trumpsMerged ? 'm' : ''}#${gs.excuseSlot ? 'x' : ''}#${gs.stock.length}`;
+}
+
+// Lower ranks are tried first: progress on the foundations, then moves that
+// turn a hidden card over, then the rest. Pulling cards back off the
+// foundations or out of the excuse slot is rarely useful and comes last.
+function moveRank(gs: GameState, move: Move): number {
+  switch (move.type) {
+    case 'mergeTrumps': return 0;
+    case 'toFoundation': return move.from.from === 'col' ? 1 : 7;
+    case 'storeExcuse': return 2;
+    case 'distribute': return 5;
+    case 'toColumn': {
+      if (move.from.from === 'excuse') return 6;
+      if (move.from.from === 'fdn') return 7;
+      const k = move.from.cardIndex;
+      if (k > 0 && !gs.columns[move.from.index][k - 1].faceUp) return 3;
+      // A whole column moving to an empty one only changes its position
+      if (k === 0 && gs.columns[move.to].length === 0) return 8;
+      return 4;
+    }
+  }
+}
+
+function orderedMoves(gs: GameState): Move[] {
+  return legalMoves(gs)
+    .map(move => ({ move, rank: moveRank(gs, move) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(m => m.move);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Solver
+// ═══════════════════════════════════════════════════════════════════
+
+// Depth-first search over every position reachable from gs, with the whole
+// deal known (hidden cards and stock order included). Positions already seen
+// are skipped, so the search always ends: with a win, with every position
+// exhausted, or when the budget runs out.
+export function solve(gs: GameState, options: SolveOptions = {}): SolveResult {
+  if (isWin(gs)) return { status: 'gagnable', line: [], nodes: 0 };
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const deadline = Date.now() + (options.maxMillis ?? DEFAULT_MAX_MILLIS);
+  const start: GameState = { ...gs, gameOver: false };
+
+  const seen = new Set<string>([positionKey(start)]);
+  const stack: { state: GameState; moves: Move[]; next: number }[] = [
+    { state: start, moves: orderedMoves(start), next: 0 },
+  ];
+  const line: Move[] = [];
+  let nodes = 0;
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    if (frame.next >= frame.moves.length) {
+      stack.pop();
+      line.pop();
+      continue;
+    }
+    const move = frame.moves[frame.next++];
+    const result = applyMove(frame.state, move);
+    if (!result.ok) continue;
+    const next = result.state;
+    if (next.gameOver) return { status: 'gagnable', line: [...line, move], nodes };
+
+    const key = positionKey(next);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    nodes++;
+    if (nodes >= maxNodes || (nodes % 1000 === 0 && Date.now() > deadline)) {
+      return { status: 'inconnu', nodes };
+    }
+    line.push(move);
+    stack.push({ state: next, moves: orderedMoves(next), next: 0 });
+  }
+  return { status: 'perdue', nodes };
+}
+
+// A winning line from the solver wanders: it's the first one found, not the
+// shortest. Each position on it is joined straight to the furthest later one
+// a single move reaches, which drops the detours.
+export function shortenLine(gs: GameState, line: Move[]): Move[] {
+  const states: GameState[] = [{ ...gs, gameOver: false }];
+  for (const move of line) {
+    const result = applyMove(states[states.length - 1], move);
+    if (!result.ok) return line;
+    states.push(result.state);
+  }
+  const index = new Map<string, number>();
+  states.forEach((s, i) => index.set(positionKey(s), i));
+  const shortened: Move[] = [];
+  let i = 0;
+  while (i < line.length) {
+    let to = i + 1;
+    let via = line[i];
+    for (const move of legalMoves(states[i])) {
+      const result = applyMove(states[i], move);
+      const j = result.ok ? index.get(positionKey(result.state)) : undefined;
+      if (j !== undefined && j > to) { to = j; via = move; }
+    }
+    shortened.push(via);
+    i = to;
+  }
+  return shortened;
+}
@@ -0,0 +1,102 @@
+// ═══════════════════════════════════════════════════════════════════
+// Cards
+// ═══════════════════════════════════════════════════════════════════
+
+export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
+
+export interface Card {
+  id: string;
+  kind: 'suit' | 'trump' | 'excuse';
+  suit?: Suit;
+  value: number;
+  faceUp: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Variants
+// ═══════════════════════════════════════════════════════════════════
+
+// How the two trump piles may be merged once all 21 trumps are home:
+// 'optional' when the piles meet (classic), 'required' to win, or 'never'.
+export type MergeRule = 'optional' | 'required' | 'never';
+
+// The rules that differ from one way of playing to another. Only the presets
+// of VARIANTS are ever played, so a variant is identified by its id.
+export interface Variant {
+  id: string;
+  name: string;
+  description: string;
+  // Cards dealt to each column, left to right; also gives the column count
+  colSizes: number[];
+  // A distribution skips the columns showing a King
+  kingsSkipDistribution: boolean;
+  // Only a King may fill an empty column; otherwise any card but the excuse
+  kingsOnlyOnEmpty: boolean;
+  // Cards on the foundations can't be played back onto the tableau
+  foundationsFinal: boolean;
+  merge: MergeRule;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Game state
+// ═══════════════════════════════════════════════════════════════════
+
+// Everything needed to continue a game. Plain data only, so a state can be
+// passed through JSON.stringify/JSON.parse unchanged.
+//
+// foundations[0..3] are the suit piles (SUITS order), [4] is the ascending
+// trump pile (1↑) and [5] the descending one (21↓). Once the two trump piles
+// are merged, [4] holds all of them and [5] stays empty.
+export interface GameState {
+  seed: number;
+  variant: Variant;
+  columns: Card[][];
+  foundations: Card[][];
+  excuseSlot: Card | null;
+  stock: Card[];
+  moves: number;
+  trumpsMerged: boolean;
+  gameOver: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Moves
+// ═══════════════════════════════════════════════════════════════════
+
+// Where the card(s) of a move come from. For a column, everything from
+// cardIndex to the bottom of the column moves together.
+export type MoveSource =
+  | { from: 'col'; index: number; cardIndex: number }
+  | { from: 'excuse' }
+  | { from: 'fdn'; index: number };
+
+// Moves to a foundation take the longest run at the bottom of a column that
+// fits the foundation, so the starting card doesn't need to be given.
+export type FoundationSource =
+  | { from: 'col'; index: number }
+  | { from: 'excuse' }
+  | { from: 'fdn'; index: number };
+
+export type Move =
+  | { type: 'toColumn'; from: MoveSource; to: number }
+  | { type: 'toFoundation'; from: FoundationSource; to: number }
+  | { type: 'storeExcuse'; from: number }
+  | { type: 'mergeTrumps' }
+  | { type: 'distribute' };
+
+export type MoveRejection =
+  | 'game-over'
+  | 'no-such-pile'
+  | 'same-pile'
+  | 'empty-source'
+  | 'not-movable'
+  | 'illegal-placement'
+  | 'excuse-slot-full'
+  | 'no-excuse'
+  | 'cannot-merge'
+  | 'stock-empty'
+  | 'no-eligible-column';
+
+export type MoveResult<S extends GameState = GameState> =
+  | { ok: true; state: S }
+  | { ok: false; reason: MoveRejection };
@@ -0,0 +1,67 @@
+import type { Variant } from './types';
+
+// ═══════════════════════════════════════════════════════════════════
+// Presets
+// ═══════════════════════════════════════════════════════════════════
+
+export const CLASSIC: Variant = {
+  id: 'classique',
+  name: 'Classique',
+  description: 'Les règles habituelles.',
+  colSizes: [1, 2, 3, 4, 5, 6, 5, 4, 3, 2, 1],
+  kingsSkipDistribution: true,
+  kingsOnlyOnEmpty: true,
+  foundationsFinal: false,
+  merge: 'optional',
+};
+
+// Each preset changes one rule of the classic game.
+export const VARIANTS: Variant[] = [
+  CLASSIC,
+  {
+    ...CLASSIC,
+    id: 'sans-saut',
+    name: 'Sans saut des rois',
+    description: 'La distribution sert aussi les colonnes où un Roi est visible.',
+    kingsSkipDistribution: false,
+  },
+  {
+    ...CLASSIC,
+    id: 'fondations-definitives',
+    name: 'Fondations définitives',
+    description: 'Une carte posée sur les fondations ne revient plus dans le jeu.',
+    foundationsFinal: true,
+  },
+  {
+    ...CLASSIC,
+    id: 'colonnes-libres',
+    name: 'Colonnes libres',
+    description: 'N\'importe quelle carte (sauf l\'excuse) peut occuper une colonne vide.',
+    kingsOnlyOnEmpty: false,
+  },
+  {
+    ...CLASSIC,
+    id: 'fusion-obligatoire',
+    name: 'Fusion obligatoire',
+    description: 'La partie n\'est gagnée qu\'une fois les deux piles d\'atouts fusionnées.',
+    merge: 'required',
+  },
+  {
+    ...CLASSIC,
+    id: 'vallee',
+    name: 'Vallée',
+    description: 'Les colonnes sont les plus hautes sur les bords : 6-5-4-3-2-1-2-3-4-5-6.',
+    colSizes: [6, 5, 4, 3, 2, 1, 2, 3, 4, 5, 6],
+  },
+  {
+    ...CLASSIC,
+    id: 'plateau',
+    name: 'Plateau',
+    description: 'Trois cartes dans chacune des onze colonnes.',
+    colSizes: [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
+  },
+];
+
+export function findVariant(id: string): Variant | null {
+  return VARIANTS.find(v => v.id === id) ?? null;
+}
@@ -0,0 +1,591 @@
+import { createContext, useContext } from 'react';
+import { DIFFICULTIES } from './engine';
+import type { Difficulty, RecordError, Suit, Variant } from './engine';
+import type { Cheat } from './cheats';
+import type { CardBackDesign, Felt, Theme, ThemeId } from './themes';
+
+// ═══════════════════════════════════════════════════════════════════
+// Locales
+// ═══════════════════════════════════════════════════════════════════
+
+export type Locale = 'fr' | 'en';
+
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'fr', name: 'Français' },
+  { id: 'en', name: 'English' },
+];
+
+export function isLocale(v: unknown): v is Locale {
+  return LOCALES.some(l => l.id === v);
+}
+
+// The browser's preferred language if the game speaks it, else French.
+export function browserLocale(): Locale {
+  const lang = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2);
+  return isLocale(lang) ? lang : 'fr';
+}
+
+// Texts a cheat shows; the French ones are those of lib/cheats.ts.
+export interface CheatText {
+  name: string;
+  shout: string;
+  prompt?: string;
+  stepLabel?: string;
+}
+
+type Described = { name: string; description: string };
+
+const s = (n: number) => (n > 1 ? 's' : '');
+
+// ═══════════════════════════════════════════════════════════════════
+// Français
+// ═══════════════════════════════════════════════════════════════════
+
+// The French catalogue gives the shape of every other one. Variants,
+// difficulties, cheats and themes are named in French where they're defined,
+// so their French texts are read from there.
+const fr = {
+  // For dates and numbers
+  dateLocale: 'fr-FR',
+  // Shown on the cards: Valet, Cavalier, Dame, Roi
+  ranks: { 1: 'A', 11: 'V', 12: 'C', 13: 'D', 14: 'R' } as Record<number, string>,
+
+  variant: (v: Variant): Described => v,
+  difficulty: (id: Difficulty): Described => DIFFICULTIES.find(d => d.id === id)!,
+  cheat: (c: Cheat): CheatText => ({ name: c.name, shout: c.shout, prompt: c.target?.prompt, stepLabel: c.stepLabel }),
+  theme: (th: Theme): Described => th,
+  felt: (f: Felt): string => f.name,
+  cardBack: (b: CardBackDesign): string => b.name,
+
+  loading: 'Distribution des cartes...',
+  searching: (level: string) => `Recherche d'une donne ${level}...`,
+  cancel: 'Annuler',
+  searchFailed: (level: string) => `Aucune donne ${level} trouvée.`,
+  retry: 'Chercher encore',
+  normalDeal: 'Donne normale',
+  close: 'Fermer',
+
+  score: {
+    cards: 'Cartes posées',
+    merge: 'Atouts réunis',
+    excuse: 'Excuse rangée',
+    timeBonus: 'Bonus de temps',
+    penalties: 'Pénalités',
+    short: (n: number) => `${n} pts`,
+  },
+
+  header: {
+    playTime: 'Temps de jeu',
+    deal: (seed: number) => `Donne n°${seed}`,
+    dailyOf: (player: string) => `Défi du jour de ${player}`,
+    dailyBadge: 'Défi',
+    undo: 'Annuler',
+    redo: 'Rétablir',
+    replayDeal: 'Rejouer cette donne',
+    analyse: 'Analyser la position',
+    hint: (used: number) => `Indice (${used} utilisé${s(used)})`,
+    review: 'Revoir la partie',
+    autoCollect: (on: boolean) => `Ramassage automatique ${on ? 'activé' : 'désactivé'}`,
+    sound: (muted: boolean) => `Son ${muted ? 'coupé' : 'activé'}`,
+    daily: 'Défi du jour',
+    stats: 'Statistiques',
+    settings: 'Réglages',
+    player: 'Joueur',
+    profiles: 'Joueurs',
+    newGame: 'Nouvelle',
+  },
+
+  board: {
+    tableau: 'Tableau',
+    bottom: 'Pioche et fondations',
+    excuse: 'Excuse',
+    auto: 'auto',
+    merge: 'Fusionner',
+    finish: 'Terminer automatiquement',
+    distributeOnly: 'Plus aucun coup sauf distribuer',
+    nextStep: 'Suivant',
+    stop: 'Stop',
+    cheatLeft: (name: string, left: number) => `${name} (${left} restante${s(left)})`,
+    noHint: 'Aucun coup utile à suggérer',
+    analysing: 'Analyse en cours…',
+    winnable: (moves: number) => `Position gagnable — solution en ${moves} coups`,
+    lost: 'Position perdue — aucune suite ne mène à la victoire',
+    unknown: (nodes: number) => `Analyse non concluante (${nodes} positions explorées)`,
+  },
+
+  blocked: {
+    title: 'Partie bloquée',
+    text: 'Plus aucun coup ne permet d\'avancer.',
+    placed: (n: number) => `${n} / 78 cartes placées`,
+    undo: 'Annuler le dernier coup',
+    review: 'Revoir la partie',
+    replayDeal: 'Rejouer cette donne',
+    newDeal: 'Nouvelle donne',
+  },
+
+  victory: {
+    title: 'VICTOIRE !',
+    greeting: (name: string) => `Bravo ${name} !`,
+    finished: (moves: number, time: string) => `Terminé en ${moves} coups · ${time} ·`,
+    points: (n: number) => `${n} points`,
+    playAgain: 'Rejouer 🃏',
+    review: 'Revoir la partie',
+  },
+
+  recordError: (line: number, error: RecordError): string => {
+    if (error === 'no-seed') return `Ligne ${line} : la partie doit commencer par le numéro de la donne (#12345).`;
+    if (error === 'unknown-variant') return `Ligne ${line} : variante de règles inconnue.`;
+    if (error === 'bad-notation') return `Ligne ${line} : coup illisible.`;
+    return `Ligne ${line} : coup impossible dans cette position.`;
+  },
+
+  // Read out by screen readers (see lib/describe.ts)
+  speech: {
+    suits: { hearts: 'cœur', diamonds: 'carreau', clubs: 'trèfle', spades: 'pique' } as Record<Suit, string>,
+    values: { 1: 'As', 11: 'Valet', 12: 'Cavalier', 13: 'Dame', 14: 'Roi' } as Record<number, string>,
+    suitCard: (value: string, suit: string) => `${value} de ${suit}`,
+    trump: (n: number) => `Atout ${n}`,
+    excuse: 'Excuse',
+    hidden: 'carte cachée',
+    // Same order as GameState.foundations
+    foundations: [
+      'Fondation cœur', 'Fondation carreau', 'Fondation trèfle', 'Fondation pique',
+      'Fondation des atouts montants', 'Fondation des atouts descendants',
+    ],
+    column: (n: number) => `Colonne ${n}`,
+    cards: (n: number) => `${n} carte${s(n)}`,
+    empty: (pile: string) => `${pile}, vide`,
+    columnCards: (pile: string, cards: string, hidden: number) =>
+      hidden > 0 ? `${pile}, ${cards} dont ${hidden} cachée${s(hidden)}` : `${pile}, ${cards}`,
+    foundationCards: (pile: string, cards: string, top: string) => `${pile}, ${cards}, dessus : ${top}`,
+    stock: (cards: string) => `Distribuer, ${cards} dans la pioche`,
+    emptyStock: 'Pioche vide',
+    excuseSlot: (card: string | null) => `Réserve de l'Excuse, ${card ?? 'vide'}`,
+    storeExcuse: 'Mettre l\'Excuse en réserve',
+    sendHome: (card: string) => `Envoyer ${card} sur les fondations`,
+
+    fromColumn: (col: string) => `de la ${col.toLowerCase()}`,
+    fromFoundation: (fdn: string) => `de la ${fdn.toLowerCase()}`,
+    fromExcuseSlot: 'de la réserve',
+    andMore: (card: string, more: string) => `${card} et ${more}`,
+    moveOnto: (cards: string, from: string, onto: string, col: string) =>
+      `${cards} ${from} sur ${onto}, ${col.toLowerCase()}`,
+    moveToEmpty: (cards: string, from: string, col: string) => `${cards} ${from} vers la ${col.toLowerCase()} vide`,
+    run: (cards: string, last: string) => `${cards} jusqu'à ${last}`,
+    toFoundation: (cards: string, fdn: string) => `${cards} sur la ${fdn.toLowerCase()}`,
+    excuseStored: 'Excuse mise en réserve',
+    merged: 'Atouts fusionnés',
+    distributed: (cards: string, left: number) => `Distribution de ${cards}, ${left} restante${s(left)}`,
+    dealt: (card: string, col: string) => `${card} distribuée sur la ${col.toLowerCase()}`,
+    uncovered: (cards: string[]) => `${cards.join(', ')} découverte${s(cards.length)}`,
+    victory: 'Victoire !',
+    automatic: 'Automatique : ',
+    undone: 'Coup annulé',
+    newDeal: (seed: number) => `Donne n°${seed}`,
+  },
+
+  stats: {
+    title: 'Statistiques',
+    played: 'Parties jouées',
+    won: 'Victoires',
+    winRate: 'Taux de victoire',
+    currentStreak: 'Série en cours',
+    bestStreak: 'Meilleure série',
+    fewestMoves: 'Victoire la plus courte',
+    moves: (n: number) => `${n} coups`,
+    wonClean: 'Victoires sans triche',
+    wonWithCheats: 'Victoires avec triche',
+    placedOnLosses: 'Cartes placées (défaites)',
+    cheatsUsed: 'Triches utilisées',
+    times: (n: number) => `${n} fois`,
+    byVariant: 'Par variante',
+    variantWins: (won: number, played: number) => `${won} / ${played} gagnées`,
+    confirmReset: 'Effacer toutes les statistiques ?',
+    reset: 'Réinitialiser les statistiques',
+  },
+
+  daily: {
+    title: 'Défi du jour',
+    intro: 'La même donne pour tout le monde chaque jour. Une seule tentative compte.',
+    player: 'Joueur',
+    played: 'Défi du jour déjà joué',
+    resume: 'Reprendre le défi du jour',
+    play: 'Jouer le défi du jour',
+    day: 'Jour',
+    today: (day: string) => `Aujourd'hui (${day})`,
+    replayTitle: 'Rejouer cette donne sans score',
+    replay: 'Rejouer (sans score)',
+    noResults: 'Aucun résultat pour ce jour.',
+    cards: 'Cartes',
+    moves: 'Coups',
+    time: 'Temps',
+    cheats: 'Triches',
+  },
+
+  settings: {
+    title: 'Réglages',
+    language: 'Langue',
+    rules: 'Règles',
+    rulesNote: 'Elles s\'appliquent à partir de la prochaine donne.',
+    currentGame: 'partie en cours',
+    newDeal: 'Nouvelle donne avec ces règles',
+    difficulty: 'Difficulté',
+    game: 'Jeu',
+    autoCollect: 'Ramassage automatique des cartes sûres',
+    appearance: 'Apparence',
+    theme: 'Thème',
+    felt: 'Tapis',
+    ownTable: 'Ce thème a son propre fond.',
+    cardBack: 'Dos des cartes',
+    fourColours: 'Quatre couleurs (♦ en bleu, ♣ en vert)',
+    sound: 'Son',
+    soundNote: 'Pour cet appareil, quel que soit le joueur.',
+    mute: 'Couper le son et les vibrations',
+    volume: 'Volume',
+  },
+
+  profiles: {
+    title: 'Joueurs',
+    intro: 'Chaque joueur a ses réglages, ses statistiques et sa partie en cours.',
+    current: 'à vous',
+    play: (name: string) => `Jouer en tant que ${name}`,
+    name: 'Nom',
+    avatar: 'Avatar',
+    victoryMessage: 'Message de victoire',
+    victoryPlaceholder: 'Affiché sous « Bravo… ! » à chaque partie gagnée',
+    add: 'Ajouter un joueur',
+    newName: (n: number) => `Joueur ${n}`,
+    remove: 'Supprimer ce joueur',
+    confirmRemove: (name: string) => `Supprimer ${name}, ses réglages, ses statistiques et sa partie en cours ?`,
+  },
+
+  history: {
+    title: (n: number) => `Historique (${n})`,
+    copied: 'Partie copiée dans le presse-papiers.',
+    noClipboard: 'Impossible d\'accéder au presse-papiers.',
+    loaded: 'Partie chargée.',
+    empty: 'Aucun coup joué.',
+    copy: 'Copier la partie',
+    download: 'Télécharger',
+    placeholder: 'Coller une partie exportée :\n#12345\n1. c3→c7 (h9..h6)\n…',
+    load: 'Charger la partie',
+  },
+
+  replay: {
+    title: 'Revoir la partie',
+    start: 'Début',
+    previous: 'Action précédente',
+    pause: 'Pause',
+    play: 'Lecture',
+    next: 'Action suivante',
+    end: 'Fin',
+    position: 'Position dans la partie',
+    speed: 'Vitesse',
+    resume: 'Reprendre ici',
+    quit: 'Quitter',
+  },
+};
+
+export type Messages = typeof fr;
+
+// ═══════════════════════════════════════════════════════════════════
+// English
+// ═══════════════════════════════════════════════════════════════════
+
+const EN_VARIANTS: Record<string, Described> = {
+  classique: { name: 'Classic', description: 'The usual rules.' },
+  'sans-saut': {
+    name: 'No King skipping',
+    description: 'Distributions also deal onto the columns showing a King.',
+  },
+  'fondations-definitives': {
+    name: 'Final foundations',
+    description: 'A card placed on a foundation can\'t come back to the tableau.',
+  },
+  'colonnes-libres': {
+    name: 'Open columns',
+    description: 'Any card (but the Excuse) may fill an empty column.',
+  },
+  'fusion-obligatoire': {
+    name: 'Required merge',
+    description: 'The game is only won once the two trump piles are merged.',
+  },
+  vallee: { name: 'Valley', description: 'The columns are tallest at the edges: 6-5-4-3-2-1-2-3-4-5-6.' },
+  plateau: { name: 'Plateau', description: 'Three cards in each of the eleven columns.' },
+};
+
+const EN_DIFFICULTIES: Record<Difficulty, Described> = {
+  facile: { name: 'Easy', description: 'Only deals that can be won without cheating.' },
+  normal: { name: 'Normal', description: 'Any deal, winnable or not.' },
+  difficile: { name: 'Hard', description: 'Winnable deals that take a great many moves or the trump merge.' },
+};
+
+const EN_CHEATS: Record<string, CheatText> = {
+  peek: { name: 'Little girl', shout: 'LITTLE GIRL!', prompt: 'Pick a column with hidden cards' },
+  slowDist: { name: 'Aude\'s trick', shout: 'AUDE\'S TRICK!', stepLabel: 'Next card' },
+  nextCard: { name: 'Crystal ball', shout: 'CRYSTAL BALL!' },
+};
+
+const EN_THEMES: Record<ThemeId, Described> = {
+  sombre: { name: 'Dark', description: 'Light cards on a dark felt.' },
+  clair: { name: 'Light', description: 'A pale felt, for playing in bright light.' },
+  contraste: { name: 'High contrast', description: 'Black table, white cards edged in black, easy-to-read text.' },
+};
+
+const EN_FELTS: Record<string, string> = {
+  vert: 'Green', bleu: 'Blue', bordeaux: 'Burgundy', ardoise: 'Slate',
+};
+
+const EN_CARD_BACKS: Record<string, string> = {
+  ardoise: 'Slate', bordeaux: 'Burgundy lattice', nuit: 'Starry night', or: 'Gold lines',
+};
+
+const en: Messages = {
+  dateLocale: 'en-GB',
+  // Jack, Knight, Queen, King
+  ranks: { 1: 'A', 11: 'J', 12: 'Kn', 13: 'Q', 14: 'K' },
+
+  variant: v => EN_VARIANTS[v.id] ?? v,
+  difficulty: id => EN_DIFFICULTIES[id],
+  cheat: c => EN_CHEATS[c.id] ?? fr.cheat(c),
+  theme: th => EN_THEMES[th.id],
+  felt: f => EN_FELTS[f.id] ?? f.name,
+  cardBack: b => EN_CARD_BACKS[b.id] ?? b.name,
+
+  loading: 'Dealing the cards...',
+  searching: level => `Looking for a deal (${level})...`,
+  cancel: 'Cancel',
+  searchFailed: level => `No ${level} deal found.`,
+  retry: 'Search again',
+  normalDeal: 'Normal deal',
+  close: 'Close',
+
+  score: {
+    cards: 'Cards placed',
+    merge: 'Trumps merged',
+    excuse: 'Excuse stored',
+    timeBonus: 'Time bonus',
+    penalties: 'Penalties',
+    short: n => `${n} pts`,
+  },
+
+  header: {
+    playTime: 'Playing time',
+    deal: seed => `Deal #${seed}`,
+    dailyOf: player => `${player}'s daily challenge`,
+    dailyBadge: 'Daily',
+    undo: 'Undo',
+    redo: 'Redo',
+    replayDeal: 'Replay this deal',
+    analyse: 'Analyse the position',
+    hint: used => `Hint (${used} used)`,
+    review: 'Watch the game',
+    autoCollect: on => `Automatic collection ${on ? 'on' : 'off'}`,
+    sound: muted => `Sound ${muted ? 'off' : 'on'}`,
+    daily: 'Daily challenge',
+    stats: 'Statistics',
+    settings: 'Settings',
+    player: 'Player',
+    profiles: 'Players',
+    newGame: 'New',
+  },
+
+  board: {
+    tableau: 'Tableau',
+    bottom: 'Stock and foundations',
+    excuse: 'Excuse',
+    auto: 'auto',
+    merge: 'Merge',
+    finish: 'Finish automatically',
+    distributeOnly: 'No moves left but distributing',
+    nextStep: 'Next',
+    stop: 'Stop',
+    cheatLeft: (name, left) => `${name} (${left} left)`,
+    noHint: 'No useful move to suggest',
+    analysing: 'Analysing…',
+    winnable: moves => `Winnable position — solved in ${moves} moves`,
+    lost: 'Lost position — no line leads to victory',
+    unknown: nodes => `Inconclusive analysis (${nodes} positions explored)`,
+  },
+
+  blocked: {
+    title: 'Game blocked',
+    text: 'No move can get the game any further.',
+    placed: n => `${n} / 78 cards placed`,
+    undo: 'Undo the last move',
+    review: 'Watch the game',
+    replayDeal: 'Replay this deal',
+    newDeal: 'New deal',
+  },
+
+  victory: {
+    title: 'VICTORY!',
+    greeting: name => `Well done ${name}!`,
+    finished: (moves, time) => `Finished in ${moves} moves · ${time} ·`,
+    points: n => `${n} points`,
+    playAgain: 'Play again 🃏',
+    review: 'Watch the game',
+  },
+
+  recordError: (line, error) => {
+    if (error === 'no-seed') return `Line ${line}: the game must start with the deal number (#12345).`;
+    if (error === 'unknown-variant') return `Line ${line}: unknown rule variant.`;
+    if (error === 'bad-notation') return `Line ${line}: unreadable move.`;
+    return `Line ${line}: impossible move in this position.`;
+  },
+
+  speech: {
+    suits: { hearts: 'hearts', diamonds: 'diamonds', clubs: 'clubs', spades: 'spades' },
+    values: { 1: 'Ace', 11: 'Jack', 12: 'Knight', 13: 'Queen', 14: 'King' },
+    suitCard: (value, suit) => `${value} of ${suit}`,
+    trump: n => `Trump ${n}`,
+    excuse: 'Excuse',
+    hidden: 'hidden card',
+    foundations: [
+      'Hearts foundation', 'Diamonds foundation', 'Clubs foundation', 'Spades foundation',
+      'Ascending trumps foundation', 'Descending trumps foundation',
+    ],
+    column: n => `Column ${n}`,
+    cards: n => `${n} card${s(n)}`,
+    empty: pile => `${pile}, empty`,
+    columnCards: (pile, cards, hidden) => (hidden > 0 ? `${pile}, ${cards}, ${hidden} hidden` : `${pile}, ${cards}`),
+    foundationCards: (pile, cards, top) => `${pile}, ${cards}, top: ${top}`,
+    stock: cards => `Distribute, ${cards} in the stock`,
+    emptyStock: 'Empty stock',
+    excuseSlot: card => `Excuse slot, ${card ?? 'empty'}`,
+    storeExcuse: 'Store the Excuse',
+    sendHome: card => `Send ${card} to the foundations`,
+
+    fromColumn: col => `from ${col.toLowerCase()}`,
+    fromFoundation: fdn => `from the ${fdn.toLowerCase()}`,
+    fromExcuseSlot: 'from the Excuse slot',
+    andMore: (card, more) => `${card} and ${more}`,
+    moveOnto: (cards, from, onto, col) => `${cards} ${from} onto ${onto}, ${col.toLowerCase()}`,
+    moveToEmpty: (cards, from, col) => `${cards} ${from} to empty ${col.toLowerCase()}`,
+    run: (cards, last) => `${cards} up to ${last}`,
+    toFoundation: (cards, fdn) => `${cards} onto the ${fdn.toLowerCase()}`,
+    excuseStored: 'Excuse stored',
+    merged: 'Trumps merged',
+    distributed: (cards, left) => `Distributed ${cards}, ${left} left`,
+    dealt: (card, col) => `${card} dealt onto ${col.toLowerCase()}`,
+    uncovered: cards => `${cards.join(', ')} turned up`,
+    victory: 'Victory!',
+    automatic: 'Automatic: ',
+    undone: 'Move undone',
+    newDeal: seed => `Deal #${seed}`,
+  },
+
+  stats: {
+    title: 'Statistics',
+    played: 'Games played',
+    won: 'Wins',
+    winRate: 'Win rate',
+    currentStreak: 'Current streak',
+    bestStreak: 'Best streak',
+    fewestMoves: 'Shortest win',
+    moves: n => `${n} moves`,
+    wonClean: 'Wins without cheating',
+    wonWithCheats: 'Wins with cheating',
+    placedOnLosses: 'Cards placed (losses)',
+    cheatsUsed: 'Cheats used',
+    times: n => `${n}×`,
+    byVariant: 'By variant',
+    variantWins: (won, played) => `${won} / ${played} won`,
+    confirmReset: 'Erase all statistics?',
+    reset: 'Reset statistics',
+  },
+
+  daily: {
+    title: 'Daily challenge',
+    intro: 'The same deal for everyone each day. Only one attempt counts.',
+    player: 'Player',
+    played: 'Daily challenge already played',
+    resume: 'Resume the daily challenge',
+    play: 'Play the daily challenge',
+    day: 'Day',
+    today: day => `Today (${day})`,
+    replayTitle: 'Replay this deal without a score',
+    replay: 'Replay (no score)',
+    noResults: 'No results for this day.',
+    cards: 'Cards',
+    moves: 'Moves',
+    time: 'Time',
+    cheats: 'Cheats',
+  },
+
+  settings: {
+    title: 'Settings',
+    language: 'Language',
+    rules: 'Rules',
+    rulesNote: 'They apply from the next deal.',
+    currentGame: 'current game',
+    newDeal: 'New deal with these rules',
+    difficulty: 'Difficulty',
+    game: 'Game',
+    autoCollect: 'Collect safe cards automatically',
+    appearance: 'Appearance',
+    theme: 'Theme',
+    felt: 'Felt',
+    ownTable: 'This theme has its own background.',
+    cardBack: 'Card backs',
+    fourColours: 'Four colours (♦ in blue, ♣ in green)',
+    sound: 'Sound',
+    soundNote: 'For this device, whoever is playing.',
+    mute: 'Mute sounds and vibrations',
+    volume: 'Volume',
+  },
+
+  profiles: {
+    title: 'Players',
+    intro: 'Each player has their own settings, statistics and game in progress.',
+    current: 'playing',
+    play: name => `Play as ${name}`,
+    name: 'Name',
+    avatar: 'Avatar',
+    victoryMessage: 'Victory message',
+    victoryPlaceholder: 'Shown under "Well done…!" whenever a game is won',
+    add: 'Add a player',
+    newName: n => `Player ${n}`,
+    remove: 'Remove this player',
+    confirmRemove: name => `Remove ${name} with their settings, statistics and game in progress?`,
+  },
+
+  history: {
+    title: n => `History (${n})`,
+    copied: 'Game copied to the clipboard.',
+    noClipboard: 'Can\'t access the clipboard.',
+    loaded: 'Game loaded.',
+    empty: 'No moves played.',
+    copy: 'Copy the game',
+    download: 'Download',
+    placeholder: 'Paste an exported game:\n#12345\n1. c3→c7 (h9..h6)\n…',
+    load: 'Load the game',
+  },
+
+  replay: {
+    title: 'Watch the game',
+    start: 'Start',
+    previous: 'Previous action',
+    pause: 'Pause',
+    play: 'Play',
+    next: 'Next action',
+    end: 'End',
+    position: 'Position in the game',
+    speed: 'Speed',
+    resume: 'Resume from here',
+    quit: 'Quit',
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Catalogue
+// ═══════════════════════════════════════════════════════════════════
+
+export const MESSAGES: Record<Locale, Messages> = { fr, en };
+
+// The page provides the catalogue of the chosen language to everything below it.
+export const MessagesContext = createContext<Messages>(fr);
+
+export function useMessages(): Messages {
+  return useContext(MessagesContext);
+}
@@ -0,0 +1,109 @@
+import { readStored, writeStored } from './storage';
+
+// ═══════════════════════════════════════════════════════════════════
+// Profiles
+// ═══════════════════════════════════════════════════════════════════
+
+// One per player sharing the device. Settings, statistics and the game in
+// progress are kept per profile (see profileKey); the daily leaderboard is
+// shared, with results recorded under the profile's id.
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string;
+  // Shown on the victory screen under the greeting; may span several lines
+  victoryMessage: string;
+}
+
+export interface Profiles {
+  list: Profile[];
+  active: string;
+  // Number in the last id given out. Ids are never reused, so a new profile
+  // can't inherit a removed one's daily results.
+  lastId: number;
+}
+
+export const MAX_PLAYER_NAME = 20;
+export const MAX_VICTORY_MESSAGE = 200;
+export const DEFAULT_PLAYER_NAME = 'Joueur';
+
+export const AVATARS = ['🙂', '👧', '👦', '👩', '👨', '👵', '👴', '🐱', '🐶', '🦊', '🐼', '🦄'];
+
+// The first profile keeps the keys used before there were profiles, so the
+// data already on the device becomes its own.
+export const FIRST_PROFILE_ID = 'p1';
+
+export function profileKey(key: string, profileId: string): string {
+  return profileId === FIRST_PROFILE_ID ? key : `${key}:${profileId}`;
+}
+
+// A single profile, as there is before anything has been stored.
+export function defaultProfiles(name = DEFAULT_PLAYER_NAME): Profiles {
+  return {
+    list: [{ id: FIRST_PROFILE_ID, name, avatar: AVATARS[0], victoryMessage: '' }],
+    active: FIRST_PROFILE_ID,
+    lastId: 1,
+  };
+}
+
+export function activeProfile(profiles: Profiles): Profile {
+  return profiles.list.find(p => p.id === profiles.active) ?? profiles.list[0];
+}
+
+// The name is left as typed while it's edited; a blank one reads as the default.
+export function profileName(profile: Profile): string {
+  return profile.name.trim() || DEFAULT_PLAYER_NAME;
+}
+
+function idNumber(profile: Profile): number {
+  return Number(profile.id.slice(1));
+}
+
+// Adds a profile with an id no profile has had, made active, given avatars in
+// turn.
+export function withNewProfile(profiles: Profiles, name: string): Profiles {
+  const n = profiles.lastId + 1;
+  const created = { id: `p${n}`, name, avatar: AVATARS[(n - 1) % AVATARS.length], victoryMessage: '' };
+  return { list: [...profiles.list, created], active: created.id, lastId: n };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Storage
+// ═══════════════════════════════════════════════════════════════════
+
+const PROFILES_KEY = 'reussite:profils';
+const PROFILES_VERSION = 1;
+
+function parseProfile(v: unknown): Profile | null {
+  if (typeof v !== 'object' || v === null) return null;
+  const p = v as Record<string, unknown>;
+  if (typeof p.id !== 'string' || !/^p\d+$/.test(p.id) || typeof p.name !== 'string') return null;
+  return {
+    id: p.id,
+    name: p.name.slice(0, MAX_PLAYER_NAME),
+    avatar: typeof p.avatar === 'string' && AVATARS.includes(p.avatar) ? p.avatar : AVATARS[0],
+    victoryMessage: typeof p.victoryMessage === 'string' ? p.victoryMessage.slice(0, MAX_VICTORY_MESSAGE) : '',
+  };
+}
+
+function parseProfiles(data: unknown, version: number): Profiles | null {
+  if (version !== PROFILES_VERSION || typeof data !== 'object' || data === null) return null;
+  const d = data as Record<string, unknown>;
+  if (!Array.isArray(d.list) || d.list.length === 0) return null;
+  const list = d.list.map(parseProfile);
+  if (list.some(p => p === null)) return null;
+  const profiles = list as Profile[];
+  const active = profiles.find(p => p.id === d.active)?.id ?? profiles[0].id;
+  const highest = Math.max(...profiles.map(idNumber));
+  const lastId = typeof d.lastId === 'number' && Number.isInteger(d.lastId) && d.lastId > highest ? d.lastId : highest;
+  return { list: profiles, active, lastId };
+}
+
+// Without stored profiles, a first one is made, named after `firstName`.
+export function loadProfiles(firstName: string): Profiles {
+  return readStored(PROFILES_KEY, parseProfiles) ?? defaultProfiles(firstName);
+}
+
+export function saveProfiles(profiles: Profiles): void {
+  writeStored(PROFILES_KEY, PROFILES_VERSION, profiles);
+}
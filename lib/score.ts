@@ -0,0 +1,58 @@
+import type { GameState } from './engine';
+
+// ═══════════════════════════════════════════════════════════════════
+// Scoring rules
+// ═══════════════════════════════════════════════════════════════════
+
+const POINTS_PER_SUIT_CARD = 5;
+const POINTS_PER_TRUMP = 8;
+const MERGE_BONUS = 50;
+const EXCUSE_BONUS = 25;
+const CHEAT_PENALTY = 100;
+const UNDO_PENALTY = 10;
+const HINT_PENALTY = 15;
+// On victory: TIME_BONUS points, minus one for every TIME_BONUS_STEP_MS spent
+const TIME_BONUS = 900;
+const TIME_BONUS_STEP_MS = 2_000;
+
+export interface ScoreInput {
+  state: GameState;
+  elapsedMs: number;
+  cheatsUsed: number;
+  undosUsed: number;
+  hintsUsed: number;
+}
+
+export interface ScoreBreakdown {
+  cards: number;
+  merge: number;
+  excuse: number;
+  timeBonus: number;
+  penalties: number;
+  total: number;
+}
+
+// The score is worked out from the position itself, so taking a card back off
+// a foundation gives its points back too.
+export function computeScore({ state, elapsedMs, cheatsUsed, undosUsed, hintsUsed }: ScoreInput): ScoreBreakdown {
+  const suitCards = state.foundations.slice(0, 4).reduce((n, f) => n + f.length, 0);
+  const trumps = state.foundations[4].length + state.foundations[5].length;
+  const cards = suitCards * POINTS_PER_SUIT_CARD + trumps * POINTS_PER_TRUMP;
+  const merge = state.trumpsMerged ? MERGE_BONUS : 0;
+  const excuse = state.excuseSlot ? EXCUSE_BONUS : 0;
+  const timeBonus = state.gameOver
+    ? Math.max(0, TIME_BONUS - Math.floor(elapsedMs / TIME_BONUS_STEP_MS))
+    : 0;
+  const penalties = cheatsUsed * CHEAT_PENALTY + undosUsed * UNDO_PENALTY + hintsUsed * HINT_PENALTY;
+  const total = Math.max(0, cards + merge + excuse + timeBonus - penalties);
+  return { cards, merge, excuse, timeBonus, penalties, total };
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m);
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`;
+}
@@ -0,0 +1,89 @@
+import { CLASSIC, DIFFICULTIES, findVariant } from './engine';
+import type { Difficulty } from './engine';
+import { browserLocale, isLocale } from './i18n';
+import type { Locale } from './i18n';
+import { profileKey } from './profiles';
+import { readStored, removeStored, writeStored } from './storage';
+import { CARD_BACKS, DEFAULT_THEME, FELTS, findCardBack, findFelt, findTheme } from './themes';
+import type { ThemeId } from './themes';
+
+// A player's preferences, kept from one game to the next for their profile.
+export interface Settings {
+  // Send cards to the foundations by themselves when it's safe
+  autoCollect: boolean;
+  // Id of the variant new deals are played under
+  variant: string;
+  // Which deals a new game may get
+  difficulty: Difficulty;
+  // Language of the interface
+  locale: Locale;
+  // Look of the table and the cards (see lib/themes.ts)
+  theme: ThemeId;
+  felt: string;
+  cardBack: string;
+  fourColours: boolean;
+}
+
+export function defaultSettings(): Settings {
+  return {
+    autoCollect: false,
+    variant: CLASSIC.id,
+    difficulty: 'normal',
+    locale: 'fr',
+    theme: DEFAULT_THEME.id,
+    felt: FELTS[0].id,
+    cardBack: CARD_BACKS[0].id,
+    fourColours: false,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Storage
+// ═══════════════════════════════════════════════════════════════════
+
+const SETTINGS_KEY = 'reussite:reglages';
+const SETTINGS_VERSION = 1;
+
+// Unknown or badly typed fields fall back to their default, so adding a
+// setting doesn't need a new version.
+function parseSettings(data: unknown, version: number): Settings | null {
+  if (version !== SETTINGS_VERSION || typeof data !== 'object' || data === null) return null;
+  const d = data as Record<string, unknown>;
+  const settings = defaultSettings();
+  if (typeof d.autoCollect === 'boolean') settings.autoCollect = d.autoCollect;
+  if (typeof d.variant === 'string' && findVariant(d.variant)) settings.variant = d.variant;
+  const difficulty = DIFFICULTIES.find(l => l.id === d.difficulty);
+  if (difficulty) settings.difficulty = difficulty.id;
+  if (isLocale(d.locale)) settings.locale = d.locale;
+  const theme = typeof d.theme === 'string' && findTheme(d.theme);
+  if (theme) settings.theme = theme.id;
+  if (typeof d.felt === 'string' && findFelt(d.felt)) settings.felt = d.felt;
+  if (typeof d.cardBack === 'string' && findCardBack(d.cardBack)) settings.cardBack = d.cardBack;
+  if (typeof d.fourColours === 'boolean') settings.fourColours = d.fourColours;
+  return settings;
+}
+
+// The first time round, the interface follows the browser's language.
+export function loadSettings(profileId: string): Settings {
+  return readStored(profileKey(SETTINGS_KEY, profileId), parseSettings)
+    ?? { ...defaultSettings(), locale: browserLocale() };
+}
+
+export function saveSettings(profileId: string, settings: Settings): void {
+  writeStored(profileKey(SETTINGS_KEY, profileId), SETTINGS_VERSION, settings);
+}
+
+export function removeSettings(profileId: string): void {
+  removeStored(profileKey(SETTINGS_KEY, profileId));
+}
+
+// Before profiles, the name daily challenge results were recorded under was
+// a setting. It names the first profile.
+export function legacyPlayerName(): string | null {
+  const name = readStored(SETTINGS_KEY, (data, version) => {
+    if (!parseSettings(data, version)) return null;
+    const { playerName } = data as Record<string, unknown>;
+    return typeof playerName === 'string' ? playerName.trim() : '';
+  });
+  return name || null;
+}
@@ -0,0 +1,16 @@
+// Runs the solver off the main thread so the board stays responsive.
+
+import { solve } from './engine';
+import type { GameState, SolveOptions, SolveResult } from './engine';
+
+export interface SolveRequest {
+  state: GameState;
+  options?: SolveOptions;
+}
+
+export type SolveResponse = SolveResult;
+
+addEventListener('message', (e: MessageEvent<SolveRequest>) => {
+  const response: SolveResponse = solve(e.data.state, e.data.options);
+  postMessage(response);
+});
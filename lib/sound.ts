@@ -0,0 +1,207 @@
+import { readStored, writeStored } from './storage';
+
+// ═══════════════════════════════════════════════════════════════════
+// Sound settings
+// ═══════════════════════════════════════════════════════════════════
+
+// Kept for the device rather than the profile: whoever is playing, a phone
+// on a train stays quiet.
+export interface SoundSettings {
+  // Silences the vibrations too
+  muted: boolean;
+  // From 0 to 1
+  volume: number;
+}
+
+export function defaultSoundSettings(): SoundSettings {
+  return { muted: false, volume: 0.6 };
+}
+
+const SOUND_KEY = 'reussite:son';
+const SOUND_VERSION = 1;
+
+function parseSoundSettings(data: unknown, version: number): SoundSettings | null {
+  if (version !== SOUND_VERSION || typeof data !== 'object' || data === null) return null;
+  const d = data as Record<string, unknown>;
+  const sound = defaultSoundSettings();
+  if (typeof d.muted === 'boolean') sound.muted = d.muted;
+  if (typeof d.volume === 'number' && d.volume >= 0 && d.volume <= 1) sound.volume = d.volume;
+  return sound;
+}
+
+export function loadSoundSettings(): SoundSettings {
+  return readStored(SOUND_KEY, parseSoundSettings) ?? defaultSoundSettings();
+}
+
+export function saveSoundSettings(sound: SoundSettings): void {
+  writeStored(SOUND_KEY, SOUND_VERSION, sound);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Synthesis
+// ═══════════════════════════════════════════════════════════════════
+
+// Every sound is made on the spot with the Web Audio API: oscillators for the
+// notes, filtered noise for the rustle of the cards.
+
+export type SoundName =
+  | 'pickup' | 'drop' | 'illegal' | 'foundation' | 'shuffle' | 'merge' | 'cheat' | 'fanfare';
+
+let context: AudioContext | null = null;
+let noiseBuffer: AudioBuffer | null = null;
+
+// Browsers only let a page make sound once the player has interacted with it,
+// which they have by the time a card moves.
+function audioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || typeof window.AudioContext !== 'function') return null;
+  context ??= new window.AudioContext();
+  if (context.state === 'suspended') void context.resume();
+  return context;
+}
+
+interface Note {
+  freq: number;
+  // Seconds after the sound starts
+  at: number;
+  duration: number;
+  gain: number;
+  wave?: OscillatorType;
+  // Glides to this frequency over the note
+  slideTo?: number;
+}
+
+function note(ctx: AudioContext, out: AudioNode, start: number, n: Note): void {
+  const t0 = start + n.at;
+  const osc = ctx.createOscillator();
+  osc.type = n.wave ?? 'sine';
+  osc.frequency.setValueAtTime(n.freq, t0);
+  if (n.slideTo) osc.frequency.exponentialRampToValueAtTime(n.slideTo, t0 + n.duration);
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(0.0001, t0);
+  env.gain.exponentialRampToValueAtTime(n.gain, t0 + 0.008);
+  env.gain.exponentialRampToValueAtTime(0.0001, t0 + n.duration);
+  osc.connect(env).connect(out);
+  osc.start(t0);
+  osc.stop(t0 + n.duration + 0.02);
+}
+
+interface Rustle {
+  at: number;
+  duration: number;
+  gain: number;
+  // Centre of the band-pass filter, in Hz
+  band: number;
+}
+
+function rustle(ctx: AudioContext, out: AudioNode, start: number, r: Rustle): void {
+  if (!noiseBuffer) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate / 2, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  const t0 = start + r.at;
+  const src = ctx.createBufferSource();
+  src.buffer = noiseBuffer;
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.frequency.value = r.band;
+  filter.Q.value = 1.2;
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(r.gain, t0);
+  env.gain.exponentialRampToValueAtTime(0.0001, t0 + r.duration);
+  src.connect(filter).connect(env).connect(out);
+  src.start(t0);
+  src.stop(t0 + r.duration + 0.02);
+}
+
+const C5 = 523.25, E5 = 659.25, G5 = 783.99, C6 = 1046.5;
+
+const SOUNDS: Record<SoundName, { notes: Note[]; rustles: Rustle[] }> = {
+  pickup: {
+    notes: [{ freq: 600, slideTo: 900, at: 0, duration: 0.06, gain: 0.12, wave: 'triangle' }],
+    rustles: [{ at: 0, duration: 0.04, gain: 0.25, band: 3500 }],
+  },
+  drop: {
+    notes: [{ freq: 240, slideTo: 160, at: 0, duration: 0.09, gain: 0.25 }],
+    rustles: [{ at: 0, duration: 0.06, gain: 0.35, band: 1400 }],
+  },
+  illegal: {
+    notes: [
+      { freq: 190, at: 0, duration: 0.09, gain: 0.1, wave: 'square' },
+      { freq: 140, at: 0.11, duration: 0.14, gain: 0.1, wave: 'square' },
+    ],
+    rustles: [],
+  },
+  foundation: {
+    notes: [
+      { freq: 880, at: 0, duration: 0.3, gain: 0.18 },
+      { freq: 1320, at: 0.03, duration: 0.25, gain: 0.08, wave: 'triangle' },
+    ],
+    rustles: [{ at: 0, duration: 0.05, gain: 0.2, band: 1800 }],
+  },
+  shuffle: {
+    notes: [],
+    rustles: Array.from({ length: 8 }, (_, i) => ({ at: i * 0.035, duration: 0.03, gain: 0.3, band: 2200 + (i % 3) * 500 })),
+  },
+  merge: {
+    notes: [C5, E5, G5, C6].map((freq, i) => ({ freq, at: i * 0.08, duration: 0.2, gain: 0.15, wave: 'triangle' as const })),
+    rustles: [{ at: 0, duration: 0.3, gain: 0.15, band: 3000 }],
+  },
+  cheat: {
+    notes: [
+      { freq: 200, slideTo: 1200, at: 0, duration: 0.35, gain: 0.07, wave: 'sawtooth' },
+      { freq: 1600, at: 0.3, duration: 0.3, gain: 0.08 },
+    ],
+    rustles: [{ at: 0, duration: 0.35, gain: 0.1, band: 5000 }],
+  },
+  fanfare: {
+    notes: [
+      { freq: C5, at: 0, duration: 0.16, gain: 0.16, wave: 'triangle' },
+      { freq: E5, at: 0.15, duration: 0.16, gain: 0.16, wave: 'triangle' },
+      { freq: G5, at: 0.3, duration: 0.16, gain: 0.16, wave: 'triangle' },
+      { freq: C6, at: 0.45, duration: 0.7, gain: 0.18, wave: 'triangle' },
+      { freq: E5, at: 0.45, duration: 0.7, gain: 0.1, wave: 'triangle' },
+      { freq: G5, at: 0.45, duration: 0.7, gain: 0.1, wave: 'triangle' },
+    ],
+    rustles: [],
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Haptics
+// ═══════════════════════════════════════════════════════════════════
+
+// Vibration patterns in milliseconds, for the phones that have it
+const VIBRATIONS: Partial<Record<SoundName, number | number[]>> = {
+  drop: 10,
+  illegal: [30, 40, 30],
+  foundation: 20,
+  merge: [20, 40, 20, 40, 20],
+  cheat: 40,
+  fanfare: [60, 60, 60, 60, 150],
+};
+
+function vibrate(pattern: number | number[]): void {
+  if (typeof navigator === 'undefined' || typeof navigator.vibrate !== 'function') return;
+  try {
+    navigator.vibrate(pattern);
+  } catch {
+    // Refused, e.g. before the first interaction
+  }
+}
+
+// Play `name` at the chosen volume, with its vibration if it has one.
+export function playSound(name: SoundName, settings: SoundSettings): void {
+  if (settings.muted) return;
+  const pattern = VIBRATIONS[name];
+  if (pattern !== undefined) vibrate(pattern);
+  const ctx = audioContext();
+  if (!ctx || settings.volume <= 0) return;
+  const out = ctx.createGain();
+  out.gain.value = settings.volume;
+  out.connect(ctx.destination);
+  const start = ctx.currentTime + 0.01;
+  const sound = SOUNDS[name];
+  sound.notes.forEach(n => note(ctx, out, start, n));
+  sound.rustles.forEach(r => rustle(ctx, out, start, r));
+}
@@ -0,0 +1,139 @@
+import { profileKey } from './profiles';
+import { readStored, removeStored, writeStored } from './storage';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+// How a game ended: won, or left unfinished (blocked or abandoned for a new
+// deal) with some cards placed. cheats lists the ids of the cheats used and
+// variant is the id of the rules the game was played under.
+export interface GameResult {
+  won: boolean;
+  moves: number;
+  placed: number;
+  cheats: string[];
+  variant: string;
+}
+
+export interface VariantStats {
+  played: number;
+  won: number;
+}
+
+export interface PlayerStats {
+  played: number;
+  won: number;
+  wonWithCheats: number;
+  currentStreak: number;
+  bestStreak: number;
+  // Among wins without cheats, which could shorten any game
+  fewestMoves: number | null;
+  placedOnLosses: number;
+  cheatsUsed: Record<string, number>;
+  byVariant: Record<string, VariantStats>;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Recording results
+// ═══════════════════════════════════════════════════════════════════
+
+export function emptyStats(): PlayerStats {
+  return {
+    played: 0,
+    won: 0,
+    wonWithCheats: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    fewestMoves: null,
+    placedOnLosses: 0,
+    cheatsUsed: {},
+    byVariant: {},
+  };
+}
+
+export function recordResult(stats: PlayerStats, result: GameResult): PlayerStats {
+  const cheatsUsed = { ...stats.cheatsUsed };
+  for (const id of result.cheats) cheatsUsed[id] = (cheatsUsed[id] ?? 0) + 1;
+  const variant = stats.byVariant[result.variant] ?? { played: 0, won: 0 };
+  const byVariant = {
+    ...stats.byVariant,
+    [result.variant]: { played: variant.played + 1, won: variant.won + (result.won ? 1 : 0) },
+  };
+  if (!result.won) {
+    return {
+      ...stats,
+      played: stats.played + 1,
+      currentStreak: 0,
+      placedOnLosses: stats.placedOnLosses + result.placed,
+      cheatsUsed,
+      byVariant,
+    };
+  }
+  const currentStreak = stats.currentStreak + 1;
+  const cheated = result.cheats.length > 0;
+  const fewestMoves = cheated || (stats.fewestMoves !== null && stats.fewestMoves <= result.moves)
+    ? stats.fewestMoves
+    : result.moves;
+  return {
+    ...stats,
+    played: stats.played + 1,
+    won: stats.won + 1,
+    wonWithCheats: stats.wonWithCheats + (cheated ? 1 : 0),
+    currentStreak,
+    bestStreak: Math.max(stats.bestStreak, currentStreak),
+    fewestMoves,
+    cheatsUsed,
+    byVariant,
+  };
+}
+
+export const winRate = (s: PlayerStats): number => (s.played > 0 ? s.won / s.played : 0);
+
+export const averagePlacedOnLosses = (s: PlayerStats): number | null =>
+  s.played > s.won ? s.placedOnLosses / (s.played - s.won) : null;
+
+// ═══════════════════════════════════════════════════════════════════
+// Storage
+// ═══════════════════════════════════════════════════════════════════
+
+const STATS_KEY = 'reussite:stats';
+const STATS_VERSION = 1;
+
+function parseStats(data: unknown, version: number): PlayerStats | null {
+  if (version !== STATS_VERSION || typeof data !== 'object' || data === null) return null;
+  const d = data as Record<string, unknown>;
+  const base = emptyStats();
+  const counts = ['played', 'won', 'wonWithCheats', 'currentStreak', 'bestStreak', 'placedOnLosses'] as const;
+  for (const k of counts) {
+    const v = d[k];
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < 0) return null;
+    base[k] = v;
+  }
+  if (d.fewestMoves !== null && typeof d.fewestMoves !== 'number') return null;
+  base.fewestMoves = d.fewestMoves;
+  if (typeof d.cheatsUsed !== 'object' || d.cheatsUsed === null) return null;
+  for (const [id, n] of Object.entries(d.cheatsUsed)) {
+    if (typeof n === 'number') base.cheatsUsed[id] = n;
+  }
+  // Stats recorded before variants existed have no breakdown
+  if (typeof d.byVariant === 'object' && d.byVariant !== null) {
+    for (const [id, v] of Object.entries(d.byVariant)) {
+      const { played, won } = (v ?? {}) as Record<string, unknown>;
+      if (typeof played === 'number' && typeof won === 'number') base.byVariant[id] = { played, won };
+    }
+  }
+  return base;
+}
+
+export function loadStats(profileId: string): PlayerStats {
+  return readStored(profileKey(STATS_KEY, profileId), parseStats) ?? emptyStats();
+}
+
+export function saveStats(profileId: string, stats: PlayerStats): void {
+  writeStored(profileKey(STATS_KEY, profileId), STATS_VERSION, stats);
+}
+
+export function removeStats(profileId: string): void {
+  removeStored(profileKey(STATS_KEY, profileId));
+}
@@ -0,0 +1,53 @@
+// Versioned JSON records in localStorage. Every record is stored as
+// { version, data } so that a reader can migrate older data or reject it.
+// Unreadable records (bad JSON, unknown version, failed validation) are
+// deleted so they don't get in the way again.
+
+interface StoredRecord {
+  version: number;
+  data: unknown;
+}
+
+function storage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null; // e.g. storage disabled by the browser
+  }
+}
+
+// `parse` receives the stored data and the version it was written with, and
+// returns the current shape or null if it can't be used.
+export function readStored<T>(
+  key: string,
+  parse: (data: unknown, version: number) => T | null,
+): T | null {
+  const store = storage();
+  const raw = store?.getItem(key);
+  if (!store || raw == null) return null;
+  try {
+    const record = JSON.parse(raw) as StoredRecord;
+    if (typeof record !== 'object' || record === null || typeof record.version !== 'number') {
+      throw new Error('not a versioned record');
+    }
+    const value = parse(record.data, record.version);
+    if (value === null) throw new Error('rejected');
+    return value;
+  } catch {
+    store.removeItem(key);
+    return null;
+  }
+}
+
+export function writeStored(key: string, version: number, data: unknown): void {
+  const record: StoredRecord = { version, data };
+  try {
+    storage()?.setItem(key, JSON.stringify(record));
+  } catch {
+    // Quota exceeded or storage unavailable: the game goes on unsaved.
+  }
+}
+
+export function removeStored(key: string): void {
+  storage()?.removeItem(key);
+}
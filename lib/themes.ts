@@ -0,0 +1,254 @@
+import type { Suit } from './engine';
+
+// ═══════════════════════════════════════════════════════════════════
+// Themes
+// ═══════════════════════════════════════════════════════════════════
+
+// The board is painted through CSS custom properties set on the root element
+// (see themeVariables), so a new choice shows at once. Colours given as
+// "r, g, b" go inside rgba().
+
+export type ThemeId = 'sombre' | 'clair' | 'contraste';
+
+interface CardColours {
+  face: string;
+  faceSelected: string;
+  ink: string;
+  edge: string;
+}
+
+export interface Theme {
+  id: ThemeId;
+  name: string;
+  description: string;
+  // A plain table instead of the chosen felt
+  table?: { felt: string; main: string };
+  // Text and outlines drawn straight on the table, from the most to the least visible
+  onFelt: { strong: string; text: string; dim: string; line: string; fill: string };
+  // Suit cards. Inks are "r, g, b"; ♦ and ♣ only get their own with four colours.
+  suitFace: string;
+  suitFaceSelected: string;
+  red: { ink: string; edge: string };
+  black: { ink: string; edge: string };
+  diamonds: { ink: string; edge: string };
+  clubs: { ink: string; edge: string };
+  trump: CardColours;
+  excuse: CardColours;
+}
+
+export const DEFAULT_THEME: Theme = {
+  id: 'sombre',
+  name: 'Sombre',
+  description: 'Cartes claires sur un tapis foncé.',
+  onFelt: {
+    strong: '#f8fafc',
+    text: 'rgba(255,255,255,0.55)',
+    dim: 'rgba(255,255,255,0.3)',
+    line: 'rgba(255,255,255,0.1)',
+    fill: 'rgba(255,255,255,0.06)',
+  },
+  suitFace: '#ffffff',
+  suitFaceSelected: '#fefce8',
+  red: { ink: '220, 38, 38', edge: '#fecaca' },
+  black: { ink: '30, 41, 59', edge: '#cbd5e1' },
+  diamonds: { ink: '37, 99, 235', edge: '#bfdbfe' },
+  clubs: { ink: '21, 128, 61', edge: '#bbf7d0' },
+  trump: { face: '#1e293b', faceSelected: '#334155', ink: '#fcd34d', edge: '#475569' },
+  excuse: { face: '#1c1917', faceSelected: '#292524', ink: '#fbbf24', edge: '#78716c' },
+};
+
+export const THEMES: Theme[] = [
+  DEFAULT_THEME,
+  {
+    ...DEFAULT_THEME,
+    id: 'clair',
+    name: 'Clair',
+    description: 'Un tapis pâle, pour jouer en pleine lumière.',
+    onFelt: {
+      strong: '#0f172a',
+      text: 'rgba(15,23,42,0.7)',
+      dim: 'rgba(15,23,42,0.45)',
+      line: 'rgba(15,23,42,0.2)',
+      fill: 'rgba(15,23,42,0.06)',
+    },
+    red: { ink: '220, 38, 38', edge: '#f87171' },
+    black: { ink: '30, 41, 59', edge: '#94a3b8' },
+    diamonds: { ink: '37, 99, 235', edge: '#60a5fa' },
+    clubs: { ink: '21, 128, 61', edge: '#4ade80' },
+  },
+  {
+    ...DEFAULT_THEME,
+    id: 'contraste',
+    name: 'Contraste élevé',
+    description: 'Fond noir, cartes blanches bordées de noir, textes bien lisibles.',
+    table: { felt: '#000000', main: '#000000' },
+    onFelt: {
+      strong: '#ffffff',
+      text: '#ffffff',
+      dim: 'rgba(255,255,255,0.8)',
+      line: 'rgba(255,255,255,0.6)',
+      fill: 'rgba(255,255,255,0.15)',
+    },
+    suitFaceSelected: '#fef08a',
+    red: { ink: '185, 0, 0', edge: '#000000' },
+    black: { ink: '0, 0, 0', edge: '#000000' },
+    diamonds: { ink: '0, 70, 200', edge: '#000000' },
+    clubs: { ink: '0, 110, 40', edge: '#000000' },
+    trump: { face: '#000000', faceSelected: '#3f3f46', ink: '#ffe066', edge: '#ffffff' },
+    excuse: { face: '#000000', faceSelected: '#3f3f46', ink: '#ffe066', edge: '#ffffff' },
+  },
+];
+
+export function findTheme(id: string): Theme | null {
+  return THEMES.find(th => th.id === id) ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Felts
+// ═══════════════════════════════════════════════════════════════════
+
+// Each felt has a dark shade and a pale one for the light theme. `main` is
+// the plain colour behind the page.
+export interface Felt {
+  id: string;
+  name: string;
+  dark: { felt: string; main: string };
+  light: { felt: string; main: string };
+}
+
+const radial = (centre: string, middle: string, edge: string) =>
+  `radial-gradient(ellipse at 50% 40%, ${centre} 0%, ${middle} 60%, ${edge} 100%)`;
+
+export const FELTS: Felt[] = [
+  {
+    id: 'vert', name: 'Vert',
+    dark: { felt: radial('#163a22', '#0d2818', '#091a0f'), main: '#0a1f12' },
+    light: { felt: radial('#e3efe4', '#cfe1d2', '#bcd3c0'), main: '#c4d9c8' },
+  },
+  {
+    id: 'bleu', name: 'Bleu',
+    dark: { felt: radial('#14304a', '#0c2236', '#081726'), main: '#0a1b2b' },
+    light: { felt: radial('#e2ebf5', '#cddbeb', '#b9cbe0'), main: '#c3d3e6' },
+  },
+  {
+    id: 'bordeaux', name: 'Bordeaux',
+    dark: { felt: radial('#45161f', '#2e0e15', '#1e080d'), main: '#240a10' },
+    light: { felt: radial('#f3e3e5', '#e6cdd1', '#d8b8be'), main: '#dfc2c7' },
+  },
+  {
+    id: 'ardoise', name: 'Ardoise',
+    dark: { felt: radial('#2a2f36', '#1c2026', '#121519'), main: '#16191e' },
+    light: { felt: radial('#eef0f2', '#dde1e5', '#cbd1d7'), main: '#d4d9de' },
+  },
+];
+
+export function findFelt(id: string): Felt | null {
+  return FELTS.find(f => f.id === id) ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Card backs
+// ═══════════════════════════════════════════════════════════════════
+
+export interface CardBackDesign {
+  id: string;
+  name: string;
+  background: string;
+  edge: string;
+  // Drawn inside a frame a few pixels in from the edge
+  pattern: string;
+  frame: string;
+}
+
+const stripes = (angle: number, colour: string) =>
+  `repeating-linear-gradient(${angle}deg,transparent,transparent 4px,${colour} 4px,${colour} 5px)`;
+
+export const CARD_BACKS: CardBackDesign[] = [
+  {
+    id: 'ardoise', name: 'Ardoise',
+    background: 'linear-gradient(135deg, #1e293b 0%, #334155 50%, #1e293b 100%)',
+    edge: '#334155',
+    pattern: stripes(45, 'rgba(255,255,255,0.03)'),
+    frame: 'rgba(255,255,255,0.06)',
+  },
+  {
+    id: 'bordeaux', name: 'Croisillons bordeaux',
+    background: 'linear-gradient(135deg, #7f1d1d 0%, #991b1b 50%, #7f1d1d 100%)',
+    edge: '#991b1b',
+    pattern: `${stripes(45, 'rgba(255,255,255,0.08)')}, ${stripes(-45, 'rgba(255,255,255,0.08)')}`,
+    frame: 'rgba(254,202,202,0.25)',
+  },
+  {
+    id: 'nuit', name: 'Nuit étoilée',
+    background: 'linear-gradient(135deg, #1e3a8a 0%, #1e40af 50%, #1e3a8a 100%)',
+    edge: '#1e40af',
+    pattern: 'radial-gradient(circle, rgba(255,255,255,0.16) 1px, transparent 1.5px) 0 0 / 6px 6px',
+    frame: 'rgba(191,219,254,0.25)',
+  },
+  {
+    id: 'or', name: 'Filets dorés',
+    background: 'linear-gradient(135deg, #1c1917 0%, #292524 50%, #1c1917 100%)',
+    edge: '#b45309',
+    pattern: stripes(90, 'rgba(251,191,36,0.15)'),
+    frame: 'rgba(251,191,36,0.4)',
+  },
+];
+
+export function findCardBack(id: string): CardBackDesign | null {
+  return CARD_BACKS.find(b => b.id === id) ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// CSS variables
+// ═══════════════════════════════════════════════════════════════════
+
+export interface Appearance {
+  theme: ThemeId;
+  felt: string;
+  cardBack: string;
+  // ♦ and ♣ get colours of their own. Only the look changes: the red and
+  // black suits still alternate in the columns.
+  fourColours: boolean;
+}
+
+// The custom properties the page reads, with their values for `appearance`.
+export function themeVariables(appearance: Appearance): Record<string, string> {
+  const theme = findTheme(appearance.theme) ?? DEFAULT_THEME;
+  const felt = findFelt(appearance.felt) ?? FELTS[0];
+  const back = findCardBack(appearance.cardBack) ?? CARD_BACKS[0];
+  const table = theme.table ?? (theme.id === 'clair' ? felt.light : felt.dark);
+  const suits: Record<Suit, { ink: string; edge: string }> = {
+    hearts: theme.red,
+    diamonds: appearance.fourColours ? theme.diamonds : theme.red,
+    clubs: appearance.fourColours ? theme.clubs : theme.black,
+    spades: theme.black,
+  };
+  const vars: Record<string, string> = {
+    '--bg-main': table.main,
+    '--bg-felt': table.felt,
+    '--felt-strong': theme.onFelt.strong,
+    '--felt-text': theme.onFelt.text,
+    '--felt-dim': theme.onFelt.dim,
+    '--felt-line': theme.onFelt.line,
+    '--felt-fill': theme.onFelt.fill,
+    '--suit-face': theme.suitFace,
+    '--suit-face-selected': theme.suitFaceSelected,
+    '--trump-face': theme.trump.face,
+    '--trump-face-selected': theme.trump.faceSelected,
+    '--trump-ink': theme.trump.ink,
+    '--trump-edge': theme.trump.edge,
+    '--excuse-face': theme.excuse.face,
+    '--excuse-face-selected': theme.excuse.faceSelected,
+    '--excuse-ink': theme.excuse.ink,
+    '--excuse-edge': theme.excuse.edge,
+    '--back': back.background,
+    '--back-edge': back.edge,
+    '--back-pattern': back.pattern,
+    '--back-frame': back.frame,
+  };
+  for (const [suit, colours] of Object.entries(suits)) {
+    vars[`--ink-${suit}`] = colours.ink;
+    vars[`--edge-${suit}`] = colours.edge;
+  }
+  return vars;
+}
@@ -0,0 +1,64 @@
+import type { Card, GameState } from './engine';
+
+// ═══════════════════════════════════════════════════════════════════
+// Card travel
+// ═══════════════════════════════════════════════════════════════════
+
+// Where each card is, by pile: 'stock', 'excuse', 'col-3', 'fdn-5'… (the
+// names the board gives its drop targets), with its position in the pile.
+export interface Place {
+  pile: string;
+  index: number;
+}
+
+export function cardPlaces(gs: GameState): Map<string, Place> {
+  const places = new Map<string, Place>();
+  gs.stock.forEach((c, index) => places.set(c.id, { pile: 'stock', index }));
+  if (gs.excuseSlot) places.set(gs.excuseSlot.id, { pile: 'excuse', index: 0 });
+  gs.columns.forEach((col, ci) => col.forEach((c, index) => places.set(c.id, { pile: `col-${ci}`, index })));
+  gs.foundations.forEach((fdn, fi) => fdn.forEach((c, index) => places.set(c.id, { pile: `fdn-${fi}`, index })));
+  return places;
+}
+
+export function cardAt(gs: GameState, place: Place): Card {
+  const [kind, n] = place.pile.split('-');
+  if (kind === 'stock') return gs.stock[place.index];
+  if (kind === 'excuse') return gs.excuseSlot!;
+  return (kind === 'col' ? gs.columns : gs.foundations)[Number(n)][place.index];
+}
+
+export function samePlaces(a: Map<string, Place>, b: Map<string, Place>): boolean {
+  if (a.size !== b.size) return false;
+  return Array.from(a).every(([id, p]) => {
+    const q = b.get(id);
+    return q !== undefined && q.pile === p.pile && q.index === p.index;
+  });
+}
+
+// A card going from one pile to another. Trips with the same `order` set off
+// together: a sequence moved to a column travels as one, while cards reaching
+// a foundation (a run sent home, the trump merge) land one after the other
+// and distributed cards leave the stock in column order.
+export interface Trip {
+  cardId: string;
+  from: Place;
+  to: Place;
+  order: number;
+}
+
+export function cardTrips(before: Map<string, Place>, after: Map<string, Place>): Trip[] {
+  const trips: Trip[] = [];
+  after.forEach((to, cardId) => {
+    const from = before.get(cardId);
+    if (from && from.pile !== to.pile) trips.push({ cardId, from, to, order: 0 });
+  });
+  const dealt = trips.filter(t => t.from.pile === 'stock' && t.to.pile.startsWith('col-'))
+    .sort((a, b) => Number(a.to.pile.slice(4)) - Number(b.to.pile.slice(4)));
+  dealt.forEach((t, i) => { t.order = i; });
+  for (const t of trips) {
+    if (!t.to.pile.startsWith('fdn-')) continue;
+    const first = Math.min(...trips.filter(u => u.to.pile === t.to.pile).map(u => u.to.index));
+    t.order = t.to.index - first;
+  }
+  return trips;
+}
@@ -0,0 +1,21 @@
+// Run the solver over a range of deals:
+//   npm run solve -- <firstSeed> [lastSeed] [maxNodes]
+
+import { dealGame, solve } from '../lib/engine';
+import type { SolveStatus } from '../lib/engine';
+
+const [first, last = first, maxNodes = '200000'] = process.argv.slice(2);
+if (first === undefined || [first, last, maxNodes].some(a => !/^\d+$/.test(a))) {
+  console.error('usage: npm run solve -- <firstSeed> [lastSeed] [maxNodes]');
+  process.exit(1);
+}
+
+const counts: Record<SolveStatus, number> = { gagnable: 0, perdue: 0, inconnu: 0 };
+for (let seed = Number(first); seed <= Number(last); seed++) {
+  const t0 = Date.now();
+  const result = solve(dealGame(seed), { maxNodes: Number(maxNodes), maxMillis: Infinity });
+  counts[result.status]++;
+  const detail = result.status === 'gagnable' ? ` en ${result.line.length} coups` : '';
+  console.log(`#${seed}\t${result.status}${detail}\t${result.nodes} positions\t${Date.now() - t0} ms`);
+}
+console.log(`\ngagnable: ${counts.gagnable}  perdue: ${counts.perdue}  inconnu: ${counts.inconnu}`);